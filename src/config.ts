@@ -6,17 +6,90 @@
  * NOT per gram, NOT per kg. All prices flow as $/oz.
  */
 
+// ── Global thresholds (per-metal values fall back to these) ──
+const DEVIATION_THRESHOLD_PCT = Number(process.env.DEVIATION_THRESHOLD_PCT) || 0.5;
+const ANOMALY_THRESHOLD_PCT = Number(process.env.ANOMALY_THRESHOLD_PCT) || 5.0;
+const STALE_THRESHOLD_MS = Number(process.env.STALE_THRESHOLD_MS) || 600_000; // 10 min
+// Force an update once the last one is this old, even with zero deviation.
+// Opt-in: 0 / unset disables it. Keep it under the stale threshold when set.
+const HEARTBEAT_MS = Number(process.env.HEARTBEAT_MS) || 0;
+const SOURCE_DIVERGENCE_PCT = Number(process.env.SOURCE_DIVERGENCE_PCT) || 1.0;
+
+// ── Shadow mode: full tick, never sends, own Redis namespace ──
+const SHADOW_MODE = process.env.SHADOW_MODE === 'true';
+const LIVE_NAMESPACE = 'oracle:watcher';
+const REDIS_NAMESPACE = process.env.REDIS_NAMESPACE || (SHADOW_MODE ? 'oracle:shadow' : LIVE_NAMESPACE);
+if (SHADOW_MODE && REDIS_NAMESPACE === LIVE_NAMESPACE) {
+  throw new Error(`SHADOW_MODE cannot use the live Redis namespace "${LIVE_NAMESPACE}"`);
+}
+
+/**
+ * Per-metal overrides, e.g. PALLADIUM_DEVIATION_THRESHOLD_PCT=1.0
+ */
+function metalThresholds(prefix: string) {
+  return {
+    deviationPct: Number(process.env[`${prefix}_DEVIATION_THRESHOLD_PCT`]) || DEVIATION_THRESHOLD_PCT,
+    anomalyPct: Number(process.env[`${prefix}_ANOMALY_THRESHOLD_PCT`]) || ANOMALY_THRESHOLD_PCT,
+    staleMs: Number(process.env[`${prefix}_STALE_THRESHOLD_MS`]) || STALE_THRESHOLD_MS,
+    heartbeatMs: Number(process.env[`${prefix}_HEARTBEAT_MS`]) || HEARTBEAT_MS,
+    divergencePct: Number(process.env[`${prefix}_SOURCE_DIVERGENCE_PCT`]) || SOURCE_DIVERGENCE_PCT,
+  };
+}
+
 export const CONFIG = {
   // ── Polling ──
   pollIntervalMs: Number(process.env.POLL_INTERVAL_MS) || 90_000,
+  closedPollIntervalMs: Number(process.env.CLOSED_POLL_INTERVAL_MS) || 900_000, // 15 min while market closed
+
+  // ── Market calendar (spot metals, America/New_York) ──
+  marketCalendarEnabled: process.env.MARKET_CALENDAR !== 'false',
+  marketHolidays: (process.env.MARKET_HOLIDAYS || '')  // extra closed dates, YYYY-MM-DD
+    .split(',').map(s => s.trim()).filter(Boolean),
+  closedMarketMovePct: Number(process.env.CLOSED_MARKET_MOVE_PCT) || 0.5, // vs last open-market price, while closed
 
   // ── Thresholds ──
-  deviationThresholdPct: Number(process.env.DEVIATION_THRESHOLD_PCT) || 0.5,
-  anomalyThresholdPct: Number(process.env.ANOMALY_THRESHOLD_PCT) || 5.0,
-  staleThresholdMs: Number(process.env.STALE_THRESHOLD_MS) || 600_000, // 10 min
+  deviationThresholdPct: DEVIATION_THRESHOLD_PCT,
+  anomalyThresholdPct: ANOMALY_THRESHOLD_PCT,
+  staleThresholdMs: STALE_THRESHOLD_MS,
+  heartbeatMs: HEARTBEAT_MS,
+  // Effective per-metal thresholds used by the analyzer
+  metalThresholds: {
+    gold: metalThresholds('GOLD'),
+    silver: metalThresholds('SILVER'),
+    platinum: metalThresholds('PLATINUM'),
+    palladium: metalThresholds('PALLADIUM'),
+  },
   maxConsecutiveErrors: 10,
   alertAfterErrors: 3,
 
+  // ── Statistical anomaly detection (on top of the fixed % checks) ──
+  // 'threshold' = fixed % only, 'statistical' = also EWMA z-score + drift over price history
+  anomalyMode: (process.env.ANOMALY_MODE === 'statistical' ? 'statistical' : 'threshold') as 'threshold' | 'statistical',
+  statsWindow: Number(process.env.STATS_WINDOW) || 120,  // snapshots (~3h at 90s)
+  statsMinSamples: 20,
+  ewmaLambda: Number(process.env.EWMA_LAMBDA) || 0.94,
+  zScoreThreshold: Number(process.env.ZSCORE_THRESHOLD) || 4,
+  driftZScoreThreshold: Number(process.env.DRIFT_ZSCORE_THRESHOLD) || 3,
+  minVolatilityPct: 0.02,  // per-tick vol floor so flat markets don't blow up z-scores
+
+  // ── Cross-metal consistency (ratios + isolated moves) ──
+  crossMetalEnabled: process.env.CROSS_METAL_CHECKS !== 'false',
+  crossMetalWindow: Number(process.env.CROSS_METAL_WINDOW) || 40, // snapshots (~1h at 90s)
+  isolatedMovePct: Number(process.env.ISOLATED_MOVE_PCT) || 1.5,  // one metal moved this much...
+  peerFlatPct: Number(process.env.PEER_FLAT_PCT) || 0.3,          // ...while every peer moved less
+  ratioTolerancePct: Number(process.env.RATIO_TOLERANCE_PCT) || 3,
+
+  // ── Degraded mode (on-chain read failed) ──
+  // block = no writes, forced-only = admin force-update only, allow = write against last known values
+  degradedWritePolicy: (['allow', 'forced-only'].includes(process.env.DEGRADED_WRITE_POLICY || '')
+    ? process.env.DEGRADED_WRITE_POLICY
+    : 'block') as 'block' | 'forced-only' | 'allow',
+
+  // ── Quarantine (hold on-chain writes after critical anomalies) ──
+  quarantineEnabled: process.env.QUARANTINE_MODE === 'true',
+  quarantineConfirmTicks: Number(process.env.QUARANTINE_CONFIRM_TICKS) || 3,
+  quarantineTolerancePct: Number(process.env.QUARANTINE_TOLERANCE_PCT) || 1.0, // "same level" band
+
   // ── GoldAPI ──
   goldApiKey: process.env.GOLDAPI_KEY || '',
   goldApiBaseUrl: 'https://www.goldapi.io/api',
@@ -25,10 +98,86 @@ export const CONFIG = {
   // ── Metals.live (free, no key) ──
   metalsLiveUrl: 'https://api.metals.live/v1/spot',
 
+  // ── Plausibility bands ($/oz) — quotes outside are rejected per metal ──
+  // maxJumpPct is measured against the last accepted fetch
+  plausibility: {
+    gold: {
+      min: Number(process.env.GOLD_MIN_PRICE) || 1000,
+      max: Number(process.env.GOLD_MAX_PRICE) || 20_000,
+      maxJumpPct: Number(process.env.GOLD_MAX_JUMP_PCT) || 10,
+    },
+    silver: {
+      min: Number(process.env.SILVER_MIN_PRICE) || 10,
+      max: Number(process.env.SILVER_MAX_PRICE) || 500,
+      maxJumpPct: Number(process.env.SILVER_MAX_JUMP_PCT) || 15,
+    },
+    platinum: {
+      min: Number(process.env.PLATINUM_MIN_PRICE) || 300,
+      max: Number(process.env.PLATINUM_MAX_PRICE) || 10_000,
+      maxJumpPct: Number(process.env.PLATINUM_MAX_JUMP_PCT) || 15,
+    },
+    palladium: {
+      min: Number(process.env.PALLADIUM_MIN_PRICE) || 300,
+      max: Number(process.env.PALLADIUM_MAX_PRICE) || 10_000,
+      maxJumpPct: Number(process.env.PALLADIUM_MAX_JUMP_PCT) || 20,
+    },
+  },
+  maxQuoteAgeMs: Number(process.env.MAX_QUOTE_AGE_MS) || 900_000, // 15 min
+
+  // ── Price providers (enabled ids, in priority order) ──
+  priceProviders: (process.env.PRICE_PROVIDERS || 'goldapi,metals-live')
+    .split(',').map(s => s.trim()).filter(Boolean),
+
+  // ── Circuit breakers (per price provider) ──
+  breakerFailureThreshold: Number(process.env.BREAKER_FAILURE_THRESHOLD) || 3,
+  breakerCooldownMs: Number(process.env.BREAKER_COOLDOWN_MS) || 300_000,            // 5 min
+  breakerRateLimitCooldownMs: Number(process.env.BREAKER_RATE_LIMIT_COOLDOWN_MS) || 900_000, // 15 min
+  breakerProbeLockSeconds: 120,
+
+  // ── Cross-source comparison (fallback mode: also sample unused providers) ──
+  sourceComparisonEnabled: process.env.SOURCE_COMPARISON === 'true',
+
+  // ── Source aggregation ──
+  // 'fallback' = first source that succeeds, 'median' = query all, take per-metal median
+  aggregationMode: (process.env.PRICE_AGGREGATION_MODE === 'median' ? 'median' : 'fallback') as 'fallback' | 'median',
+  minQuorum: Number(process.env.PRICE_MIN_QUORUM) || 2,
+  outlierTolerancePct: Number(process.env.PRICE_OUTLIER_TOLERANCE_PCT) || 1.0,
+
   // ── Blockchain ──
   rpcUrl: process.env.BASE_RPC_URL || process.env.NEXT_PUBLIC_BASE_RPC_URL || 'https://mainnet.base.org',
-  privateKey: process.env.PRIVATE_KEY || '',
+  // Provider pool: comma-separated, scored and failed over (see services/rpc-pool.ts); unset = rpcUrl alone
+  rpcUrls: (process.env.BASE_RPC_URLS || '').split(',').map(u => u.trim()).filter(Boolean),
   oracleAddress: process.env.ORACLE_ADDRESS || '0xbB109166062D718756D0389F4bA2aB02A36F296c',
+  // Multiple deployments (JSON array, see services/targets.ts); unset = the single target above
+  oracleTargetsJson: process.env.ORACLE_TARGETS || '',
+
+  // ── RPC provider pool ──
+  rpcRequestTimeoutMs: Number(process.env.RPC_REQUEST_TIMEOUT_MS) || 10_000,
+  rpcHealthCheckIntervalMs: Number(process.env.RPC_HEALTH_CHECK_INTERVAL_MS) || 30_000,
+  rpcMaxBlockLag: Number(process.env.RPC_MAX_BLOCK_LAG) || 5,                // blocks behind the pool's best
+  rpcMaxConsecutiveFailures: Number(process.env.RPC_MAX_CONSECUTIVE_FAILURES) || 3,
+  rpcFailureCooldownMs: Number(process.env.RPC_FAILURE_COOLDOWN_MS) || 60_000,
+
+  // ── Signer (keystore | remote | raw-key; raw-key is for development) ──
+  signerBackend: (process.env.SIGNER_BACKEND || 'raw-key') as 'raw-key' | 'keystore' | 'remote',
+  privateKey: process.env.PRIVATE_KEY || '',
+  keystorePath: process.env.KEYSTORE_PATH || '',
+  keystorePassword: process.env.KEYSTORE_PASSWORD || '',
+  keystorePasswordFile: process.env.KEYSTORE_PASSWORD_FILE || '',
+  remoteSignerUrl: process.env.REMOTE_SIGNER_URL || '',
+  remoteSignerAddress: process.env.REMOTE_SIGNER_ADDRESS || '',
+  remoteSignerToken: process.env.REMOTE_SIGNER_TOKEN || '',
+  remoteSignerTimeoutMs: Number(process.env.REMOTE_SIGNER_TIMEOUT_MS) || 10_000,
+
+  // ── Transaction fees (EIP-1559, gwei) ──
+  maxFeeGwei: Number(process.env.MAX_FEE_GWEI) || 2,                 // absolute cap
+  maxPriorityFeeGwei: Number(process.env.MAX_PRIORITY_FEE_GWEI) || 0.1, // absolute cap
+  gasCeilingGwei: Number(process.env.GAS_CEILING_GWEI) || 0.5,       // skip non-severe updates above this base fee
+  severeDeviationPct: Number(process.env.SEVERE_DEVIATION_PCT) || 2.0, // deviation that overrides the ceiling
+  txConfirmTimeoutMs: Number(process.env.TX_CONFIRM_TIMEOUT_MS) || 60_000,
+  txMaxReplacements: Number(process.env.TX_MAX_REPLACEMENTS) || 3,
+  txFeeBumpPct: 20,        // per replacement; nodes need at least +10%
+  txPollIntervalMs: 2000,
 
   // ── Oracle Contract ABI (AuxiteMetalOracleV2) ──
   oracleAbi: [
@@ -36,6 +185,40 @@ export const CONFIG = {
     'function getAllPricesOzE6() external view returns (uint256 auxgOzE6, uint256 auxsOzE6, uint256 auxptOzE6, uint256 auxpdOzE6, uint256 ethE6)',
   ],
 
+  // ── Revert decoding (custom errors the oracle may raise; Error(string) is built in) ──
+  oracleErrorAbi: [
+    'error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)',
+    'error OwnableUnauthorizedAccount(address account)',
+    'error EnforcedPause()',
+    'error ExpectedPause()',
+  ],
+  gasLimitBufferPct: 20,  // added on top of the simulated estimate
+
+  // ── Post-update verification (re-read oracle after confirmation) ──
+  verifyConfirmations: Number(process.env.VERIFY_CONFIRMATIONS) || 2,
+  verifyTimeoutMs: Number(process.env.VERIFY_TIMEOUT_MS) || 60_000,
+  verifyToleranceE6: 1,  // allowed |sent - read| in E6 units (rounding)
+
+  // ── Signer balance / runway ──
+  balanceWarnEth: Number(process.env.BALANCE_WARN_ETH) || 0.05,
+  balanceCriticalEth: Number(process.env.BALANCE_CRITICAL_ETH) || 0.01,
+  runwayWarnDays: Number(process.env.RUNWAY_WARN_DAYS) || 14,
+  runwayCriticalDays: Number(process.env.RUNWAY_CRITICAL_DAYS) || 3,
+  runwayWindowMs: 7 * 24 * 60 * 60 * 1000,  // gas spend averaged over this window
+  balanceCheckIntervalMs: Number(process.env.BALANCE_CHECK_INTERVAL_MS) || 600_000,
+
+  // ── On-chain event watcher (writes to the oracle by anyone) ──
+  eventWatcherEnabled: process.env.EVENT_WATCHER !== 'false',
+  eventPollIntervalMs: Number(process.env.EVENT_POLL_INTERVAL_MS) || 60_000,
+  eventConfirmations: Number(process.env.EVENT_CONFIRMATIONS) || 3,        // only scan blocks this deep
+  eventMaxBlockRange: Number(process.env.EVENT_MAX_BLOCK_RANGE) || 2000,   // per eth_getLogs call
+  eventInitialLookbackBlocks: Number(process.env.EVENT_INITIAL_LOOKBACK_BLOCKS) || 0,  // first run without a cursor
+  eventScanLockSeconds: 120,
+  ownTxRetentionMs: 90 * 24 * 60 * 60 * 1000,  // our tx hashes kept for matching
+
+  // ── Transaction ledger (every update attempt, GET /admin/transactions) ──
+  ledgerRetentionDays: Number(process.env.LEDGER_RETENTION_DAYS) || 365,
+
   // ── Metal symbol mapping ──
   goldApiSymbols: {
     XAU: 'gold',
@@ -47,6 +230,12 @@ export const CONFIG = {
   // ── Redis ──
   redisUrl: process.env.UPSTASH_REDIS_REST_URL || '',
   redisToken: process.env.UPSTASH_REDIS_REST_TOKEN || '',
+  redisNamespace: REDIS_NAMESPACE,
+
+  // ── Shadow mode (build + simulate only; alerts logged, not sent) ──
+  shadowMode: SHADOW_MODE,
+  shadowFromAddress: process.env.SHADOW_FROM_ADDRESS || '',  // simulate as this address (default: configured signer)
+  compareNamespace: process.env.COMPARE_NAMESPACE || LIVE_NAMESPACE,  // decisions to compare against
 
   // ── Notification (wallet app push-send) ──
   auxiteAppUrl: process.env.AUXITE_APP_URL || 'https://vault.auxite.io',
@@ -67,6 +256,21 @@ export const CONFIG = {
     palladium: 1820,
   },
 
-  // ── ETH fallback ──
+  // ── ETH/USD pipeline ──
+  // Sources tried in order: chainlink, coingecko, oracle (last on-chain value)
+  ethPriceSources: (process.env.ETH_PRICE_SOURCES || 'chainlink,coingecko,oracle')
+    .split(',').map(s => s.trim()).filter(Boolean),
+  ethUsdFeedAddress: process.env.ETH_USD_FEED_ADDRESS || '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70', // Chainlink ETH/USD on Base
+  ethUsdFeedAbi: [
+    'function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+    'function decimals() external view returns (uint8)',
+  ],
+  ethFeedMaxAgeMs: Number(process.env.ETH_FEED_MAX_AGE_MS) || 3_600_000, // 1 h (feed heartbeat on Base is 20 min)
+  coingeckoEthUrl: 'https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd',
+  ethMinPrice: Number(process.env.ETH_MIN_PRICE) || 100,
+  ethMaxPrice: Number(process.env.ETH_MAX_PRICE) || 100_000,
+  ethAnomalyThresholdPct: Number(process.env.ETH_ANOMALY_THRESHOLD_PCT) || 10,
+
+  // ── ETH fallback (alerts whenever used) ──
   ethFallbackPrice: 2500,
 };
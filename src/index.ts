@@ -7,6 +7,9 @@ import { CONFIG } from './config';
 import { logger } from './utils/logger';
 import { startServer } from './server';
 import { startScheduler, stopScheduler } from './scheduler';
+import { startEventWatcher, stopEventWatcher } from './services/event-watcher';
+import { getTargets } from './services/targets';
+import { endpointLabel } from './services/rpc-pool';
 
 async function main(): Promise<void> {
   // Debug: log ALL env vars that start with UPSTASH, GOLD, PRIVATE (masked)
@@ -18,27 +21,37 @@ async function main(): Promise<void> {
     UPSTASH_REDIS_REST_TOKEN: process.env.UPSTASH_REDIS_REST_TOKEN ? `${process.env.UPSTASH_REDIS_REST_TOKEN.substring(0, 10)}...` : 'MISSING',
     GOLDAPI_KEY: process.env.GOLDAPI_KEY ? `${process.env.GOLDAPI_KEY.substring(0, 10)}...` : 'MISSING',
     PRIVATE_KEY: process.env.PRIVATE_KEY ? 'SET' : 'MISSING',
+    SIGNER_BACKEND: CONFIG.signerBackend,
   }, 'ENV DEBUG');
 
   logger.info('═══════════════════════════════════════');
   logger.info('  Auxite Oracle Watcher v1.0.0');
   logger.info('═══════════════════════════════════════');
-  // Derive wallet address for logging
-  let walletAddress = 'N/A';
-  if (CONFIG.privateKey) {
+  // Invalid ORACLE_TARGETS fails startup here rather than on the first tick
+  const targets = getTargets();
+
+  // Load each target's signer once up front (keystore decrypt, remote signer reachability)
+  const targetSummary = [];
+  for (const target of targets) {
+    let walletAddress = 'N/A';
     try {
-      const { ethers } = await import('ethers');
-      walletAddress = new ethers.Wallet(CONFIG.privateKey).address;
+      const { getSignerAddress } = await import('./services/signers');
+      walletAddress = (await getSignerAddress(target)) ?? 'N/A';
     } catch { /* ignore */ }
+    targetSummary.push({
+      id: target.id,
+      oracleAddress: target.oracleAddress,
+      rpcEndpoints: target.rpcUrls.map(endpointLabel),
+      signerBackend: target.signer.backend,
+      walletAddress,
+    });
   }
 
   logger.info({
     pollInterval: `${CONFIG.pollIntervalMs}ms`,
     deviationThreshold: `${CONFIG.deviationThresholdPct}%`,
     anomalyThreshold: `${CONFIG.anomalyThresholdPct}%`,
-    oracleAddress: CONFIG.oracleAddress,
-    rpcUrl: CONFIG.rpcUrl,
-    walletAddress,
+    targets: targetSummary,
     hasGoldApiKey: !!CONFIG.goldApiKey,
     hasPrivateKey: !!CONFIG.privateKey,
     hasRedisUrl: !!CONFIG.redisUrl,
@@ -69,14 +82,32 @@ async function main(): Promise<void> {
     logger.error({ error: err.message }, 'Failed to set initial Redis status — continuing anyway');
   }
 
+  if (CONFIG.shadowMode) {
+    logger.warn({ namespace: CONFIG.redisNamespace, compareNamespace: CONFIG.compareNamespace },
+      'SHADOW MODE — updates are simulated only, nothing will be sent');
+  } else {
+    // Reconcile transactions a previous run left unconfirmed (don't block startup on RPC errors)
+    const { reconcilePendingUpdates } = await import('./services/oracle-updater');
+    for (const target of targets) {
+      try {
+        await reconcilePendingUpdates(target);
+      } catch (err: any) {
+        logger.error({ target: target.id, error: err.message },
+          'Pending transaction reconciliation failed — continuing anyway');
+      }
+    }
+  }
+
   // Start price monitoring scheduler
   startScheduler();
+  startEventWatcher();
   logger.info('Oracle Watcher is running');
 
   // Graceful shutdown
   const shutdown = async (signal: string) => {
     logger.info({ signal }, 'Shutting down...');
     stopScheduler();
+    stopEventWatcher();
     try {
       const { setStatus } = await import('./services/redis-state');
       await setStatus({
@@ -1,39 +1,298 @@
 /**
  * Oracle Watcher Scheduler
- * Main monitoring loop — runs every POLL_INTERVAL_MS (default 90s)
+ * Main monitoring loop — runs every POLL_INTERVAL_MS (default 90s),
+ * slowing to CLOSED_POLL_INTERVAL_MS while the metals market is closed
  * Uses setAllPrices() for single-tx oracle updates
+ * One shared price fetch per tick feeds every target; each target gets its
+ * own on-chain read, analysis, kill switch and update
  */
 
 import { CONFIG } from './config';
 import { logger } from './utils/logger';
 
 import { fetchPrices } from './services/price-fetcher';
+import { fetchEthPrice } from './services/eth-price-fetcher';
 import { readOraclePrices } from './services/oracle-reader';
 import { updateOracle } from './services/oracle-updater';
+import { getSignerAddress } from './services/signers';
+import { getTargets } from './services/targets';
 import { analyzePrices } from './services/price-analyzer';
 import { sendAlert, sendAnomalyAlerts } from './services/alert-service';
+import { applyQuarantine } from './services/quarantine';
+import { checkSignerBalance } from './services/balance-monitor';
+import { recordUpdateAttempt } from './services/tx-ledger';
+import { getMarketSession } from './services/market-calendar';
 import {
   getKillSwitch,
   setKillSwitch,
   getOverridePrices,
+  getLastFetch,
   setLastFetch,
+  getLastOpenPrices,
+  setLastOpenPrices,
+  getLastUpdate,
   setLastUpdate,
   setStatus,
   getStatus,
   pushPriceSnapshot,
+  pushDecision,
   incrementErrorCount,
   resetErrorCount,
   getErrorCount,
 } from './services/redis-state';
-import type { MetalPrices } from './types';
+import type {
+  AnalysisResult,
+  Anomaly,
+  DecisionRecord,
+  EthFetchResult,
+  LastFetchRecord,
+  LastOpenPricesRecord,
+  MetalPrices,
+  OracleTarget,
+  PriceAttribution,
+  PriceSnapshot,
+  SourceQuotes,
+  UpdateResult,
+} from './types';
 
-let intervalHandle: ReturnType<typeof setInterval> | null = null;
+let timerHandle: ReturnType<typeof setTimeout> | null = null;
+let stopped = true;
 let isRunning = false;
 
+/**
+ * Prices fetched once per tick, shared by every target
+ */
+interface SharedFetch {
+  prices: MetalPrices;
+  source: string;
+  attribution: PriceAttribution;
+  sourceQuotes?: SourceQuotes;
+  eth: EthFetchResult;
+  previousFetch: LastFetchRecord | null;  // read before this tick's fetch overwrites it
+  lastOpenPrices: LastOpenPricesRecord | null;  // same, for the last fetch while the market was open
+}
+
+interface TargetRead {
+  target: OracleTarget;
+  killSwitch: boolean;
+  onChain: MetalPrices;
+  degraded: boolean;
+  analysis: AnalysisResult;
+}
+
+/**
+ * On-chain read (degraded: fall back to the last update we wrote) + analysis
+ */
+async function readTarget(target: OracleTarget, shared: SharedFetch, force: boolean): Promise<TargetRead> {
+  const killSwitch = await getKillSwitch(target.id);
+
+  let onChain: MetalPrices;
+  let degraded = false;
+  let rpcError = '';
+  try {
+    const oracleResult = await readOraclePrices(target);
+    onChain = {
+      gold: oracleResult.gold,
+      silver: oracleResult.silver,
+      platinum: oracleResult.platinum,
+      palladium: oracleResult.palladium,
+    };
+  } catch (error: any) {
+    degraded = true;
+    rpcError = error.message;
+    const lastUpdate = await getLastUpdate(target.id);
+    onChain = lastUpdate?.prices
+      ? { ...lastUpdate.prices }
+      : { gold: 0, silver: 0, platinum: 0, palladium: 0 };
+    logger.error({
+      target: target.id,
+      error: error.message,
+      fallback: lastUpdate?.prices ? 'last-update' : 'none',
+      policy: CONFIG.degradedWritePolicy,
+    }, 'Failed to read on-chain prices — degraded mode');
+  }
+
+  const analysis = await analyzePrices(shared.prices, onChain, {
+    target,
+    attribution: shared.attribution,
+    sourceQuotes: shared.sourceQuotes,
+    previousFetch: shared.previousFetch,
+    lastOpenPrices: shared.lastOpenPrices,
+    force,
+  });
+
+  analysis.anomalies.push(...shared.eth.anomalies);
+
+  if (degraded) {
+    analysis.anomalies.push({
+      type: 'rpc_failure',
+      target: target.id,
+      severity: 'critical',
+      message: `${target.name}: on-chain read failed (${rpcError}). Using last known values; write policy: ${CONFIG.degradedWritePolicy}`,
+    });
+
+    const writeAllowed = CONFIG.degradedWritePolicy === 'allow'
+      || (CONFIG.degradedWritePolicy === 'forced-only' && analysis.updateReason === 'forced');
+    if (analysis.shouldUpdate && !writeAllowed) {
+      analysis.shouldUpdate = false;
+      logger.warn({ target: target.id, reason: analysis.updateReason, policy: CONFIG.degradedWritePolicy },
+        'Degraded mode — skipping oracle update without a confirmed on-chain read');
+    }
+  }
+
+  return { target, killSwitch, onChain, degraded, analysis };
+}
+
+/**
+ * Quarantine, update, balance check and decision log for one target
+ */
+async function publishTarget(read: TargetRead, shared: SharedFetch): Promise<void> {
+  const { target, killSwitch, onChain, degraded, analysis } = read;
+
+  // ── Quarantine: held metals keep their on-chain value ──
+  let writePrices = shared.prices;
+  if (CONFIG.quarantineEnabled) {
+    const quarantine = await applyQuarantine(target.id, shared.prices, onChain, analysis.anomalies);
+    writePrices = quarantine.prices;
+    analysis.held = quarantine.held;
+
+    if (quarantine.blocked && analysis.shouldUpdate) {
+      analysis.shouldUpdate = false;
+      logger.warn({ target: target.id, held: quarantine.held }, 'Held metal has no on-chain value — skipping update');
+    } else if (quarantine.held.length > 0 && analysis.updateReason === 'deviation') {
+      // Only a held metal deviated: nothing left worth a tx
+      const stillDeviating = (['gold', 'silver', 'platinum', 'palladium'] as const).some(metal =>
+        !quarantine.held.includes(metal)
+        && analysis.deviations[metal] > target.metalThresholds[metal].deviationPct);
+      if (!stillDeviating) analysis.shouldUpdate = false;
+    }
+  }
+
+  // ── Update oracle if needed (single tx with setAllPrices) ──
+  let updated = false;
+  let updateResult: UpdateResult | null = null;
+  if (analysis.shouldUpdate && !killSwitch) {
+    logger.info({ target: target.id, deviations: analysis.deviations, reason: analysis.updateReason },
+      'Updating oracle prices...');
+
+    // Severe deviation may send above the gas ceiling
+    const maxDeviation = Math.max(...Object.values(analysis.deviations));
+    const severe = maxDeviation >= target.fees.severeDeviationPct;
+    updateResult = await updateOracle(target, writePrices, shared.eth.price, { severe });
+    await recordUpdateAttempt(target, updateResult, { reason: analysis.updateReason, severe });
+
+    if (updateResult.success) {
+      updated = !updateResult.dryRun;
+      await setLastUpdate(target.id, {
+        timestamp: new Date().toISOString(),
+        txHash: updateResult.txHash,
+        reason: analysis.updateReason ?? undefined,
+        source: shared.source,
+        prices: updateResult.prices,
+        ethPrice: updateResult.ethPrice,
+      });
+      await resetErrorCount(target.id);
+
+      if (updateResult.verification?.verified === false) {
+        await sendAlert({
+          type: 'verification_failed',
+          severity: 'critical',
+          title: `Oracle: Post-Update Verification Failed (${target.name})`,
+          body: `On-chain prices differ from tx ${updateResult.txHash}: ${updateResult.verification.mismatches
+            .map(m => `${m.field} sent ${m.sentE6} read ${m.readE6}`).join('; ')}`,
+          data: { target: target.id, txHash: updateResult.txHash, mismatches: updateResult.verification.mismatches },
+        });
+      }
+    } else if (updateResult.errorCategory === 'fee_ceiling') {
+      // Deliberate skip, retried next tick — not a failure
+      logger.info({ target: target.id, maxDeviation }, 'Update deferred until gas drops below ceiling');
+    } else {
+      const errorCount = await incrementErrorCount(target.id);
+
+      // A failed simulation won't fix itself (role revoked, paused…): alert right away
+      if (updateResult.errorCategory === 'simulation_failed') {
+        await sendAlert({
+          type: 'update_failure',
+          severity: 'critical',
+          title: `Oracle: Update Simulation Reverted (${target.name})`,
+          body: `setAllPrices would revert — nothing was sent. ${updateResult.error}`,
+          data: { target: target.id, errorCount, error: updateResult.error, category: updateResult.errorCategory },
+        });
+      } else if (errorCount >= CONFIG.alertAfterErrors) {
+        await sendAlert({
+          type: 'update_failure',
+          severity: 'critical',
+          title: `Oracle: Update Failed (${target.name})`,
+          body: `Oracle update failed ${errorCount} consecutive times. Error: ${updateResult.error}`,
+          data: { target: target.id, errorCount, error: updateResult.error },
+        });
+      }
+
+      if (errorCount >= CONFIG.maxConsecutiveErrors) {
+        await setKillSwitch(target.id, true);
+        await sendAlert({
+          type: 'watcher_error',
+          severity: 'critical',
+          title: `Oracle Watcher Auto-Paused (${target.name})`,
+          body: `Auto-paused ${target.name} after ${errorCount} consecutive failures.`,
+          data: { target: target.id, errorCount },
+        });
+      }
+    }
+  } else if (killSwitch && analysis.shouldUpdate) {
+    logger.info({ target: target.id }, 'Kill switch active — skipping oracle update');
+  }
+
+  // ── Signer balance + runway (re-read right after spending gas) ──
+  const signerAddress = CONFIG.shadowMode ? null : await getSignerAddress(target);
+  if (signerAddress) {
+    await checkSignerBalance(target, signerAddress, updated);
+  }
+
+  // ── Decision log (compared across live/shadow via /decisions) ──
+  let outcome: DecisionRecord['outcome'] = 'none';
+  if (killSwitch && analysis.shouldUpdate) outcome = 'kill_switch';
+  else if (updateResult?.success) outcome = updateResult.dryRun ? 'simulated' : 'sent';
+  else if (updateResult?.errorCategory === 'fee_ceiling') outcome = 'deferred';
+  else if (updateResult) outcome = 'failed';
+
+  await pushDecision(target.id, {
+    timestamp: new Date().toISOString(),
+    target: target.id,
+    shadow: CONFIG.shadowMode,
+    source: shared.source,
+    fetched: shared.prices,
+    written: writePrices,
+    ethPrice: shared.eth.price,
+    onChain,
+    deviations: analysis.deviations,
+    shouldUpdate: analysis.shouldUpdate,
+    updateReason: analysis.updateReason,
+    held: analysis.held ?? [],
+    anomalies: analysis.anomalies.map(a => (a.metal ? `${a.type}:${a.metal}` : a.type)),
+    degraded,
+    outcome,
+    txHash: updateResult?.txHash || undefined,
+    simulatedGas: updateResult?.simulatedGas,
+    error: updateResult?.error,
+  });
+
+  logger.info({
+    target: target.id,
+    shouldUpdate: analysis.shouldUpdate,
+    updateReason: analysis.updateReason,
+    held: analysis.held,
+    killSwitch,
+    degraded,
+    outcome,
+  }, `Target ${target.id} done`);
+}
+
 /**
  * Single tick of the watcher cycle
+ * @param force - admin force-update: write on-chain regardless of deviation
  */
-async function tick(): Promise<void> {
+async function tick(force = false): Promise<void> {
   if (isRunning) {
     logger.warn('Previous tick still running, skipping');
     return;
@@ -41,144 +300,144 @@ async function tick(): Promise<void> {
 
   isRunning = true;
   const cycleStart = Date.now();
+  const targets = getTargets();
 
   try {
-    // ── 1. Check kill switch ──
-    const killSwitchActive = await getKillSwitch();
-
-    // ── 2. Check for override prices ──
+    // ── 1. Check for override prices ──
     const overridePrices = await getOverridePrices();
 
-    // ── 3. Fetch prices ($/oz) ──
-    let fetchedPrices: MetalPrices;
-    let ethPrice: number;
-    let priceSource: string;
+    // ── 2. Fetch prices ($/oz) + ETH/USD once for all targets ──
+    const ethResult = await fetchEthPrice();
+    const [previousFetch, lastOpenPrices] = await Promise.all([getLastFetch(), getLastOpenPrices()]);
+    let shared: SharedFetch;
 
     if (overridePrices) {
-      fetchedPrices = overridePrices;
-      ethPrice = CONFIG.ethFallbackPrice;
-      priceSource = 'override';
+      const setAt = { source: 'override', quotedAt: new Date().toISOString() };
+      shared = {
+        prices: overridePrices,
+        source: 'override',
+        attribution: { gold: setAt, silver: setAt, platinum: setAt, palladium: setAt },
+        eth: ethResult,
+        previousFetch,
+        lastOpenPrices,
+      };
       logger.info({ prices: overridePrices }, 'Using override prices');
     } else {
       const fetchResult = await fetchPrices();
-      fetchedPrices = fetchResult.prices;
-      ethPrice = fetchResult.ethPrice;
-      priceSource = fetchResult.source;
+      shared = {
+        prices: fetchResult.prices,
+        source: fetchResult.source,
+        attribution: fetchResult.attribution,
+        sourceQuotes: fetchResult.sourceQuotes,
+        eth: ethResult,
+        previousFetch,
+        lastOpenPrices,
+      };
 
       await setLastFetch({
         timestamp: new Date().toISOString(),
-        prices: fetchedPrices,
-        ethPrice,
+        prices: fetchResult.prices,
+        ethPrice: ethResult.price,
+        ethSource: ethResult.source,
         source: fetchResult.source,
+        attribution: fetchResult.attribution,
         errors: fetchResult.errors,
+        rejections: fetchResult.rejections,
+        contributions: fetchResult.contributions,
       });
+      if (getMarketSession().open && fetchResult.source !== 'hardcoded') {
+        await setLastOpenPrices({ timestamp: new Date().toISOString(), prices: fetchResult.prices });
+      }
 
       if (fetchResult.source === 'hardcoded' && fetchResult.errors.length > 0) {
         await sendAlert({
           type: 'source_failure',
           severity: 'warning',
           title: 'Oracle: All Price Sources Failed',
-          body: `GoldAPI and metals.live both failed. Using hardcoded fallback. Errors: ${fetchResult.errors.join('; ')}`,
+          body: `All live price sources failed. Using hardcoded fallback. Errors: ${fetchResult.errors.join('; ')}`,
           data: { errors: fetchResult.errors },
         });
       }
     }
 
-    // ── 4. Read on-chain prices ──
-    let onChainPrices: MetalPrices;
-    try {
-      const oracleResult = await readOraclePrices();
-      onChainPrices = {
-        gold: oracleResult.gold,
-        silver: oracleResult.silver,
-        platinum: oracleResult.platinum,
-        palladium: oracleResult.palladium,
-      };
-    } catch (error: any) {
-      logger.error({ error: error.message }, 'Failed to read on-chain prices');
-      onChainPrices = { gold: 0, silver: 0, platinum: 0, palladium: 0 };
-    }
-
-    // ── 5. Analyze prices ──
-    const analysis = await analyzePrices(fetchedPrices, onChainPrices);
+    // ── 3. Per target: kill switch, on-chain read, analysis ──
+    // A failing target is logged and counted; the others still publish
+    const reads = await Promise.all(targets.map(target =>
+      readTarget(target, shared, force).catch(async (error: any) => {
+        const errorCount = await incrementErrorCount(target.id);
+        logger.error({ target: target.id, error: error.message, errorCount }, 'Target read/analysis failed');
+        return null;
+      })));
+    const ready = reads.filter((r): r is TargetRead => r !== null);
 
-    // ── 6. Send anomaly alerts ──
-    if (analysis.anomalies.length > 0) {
-      await sendAnomalyAlerts(analysis.anomalies);
-    }
-
-    // ── 7. Update oracle if needed (single tx with setAllPrices) ──
-    if (analysis.shouldUpdate && !killSwitchActive) {
-      logger.info({ deviations: analysis.deviations }, 'Updating oracle prices...');
-
-      const updateResult = await updateOracle(fetchedPrices, ethPrice);
-
-      if (updateResult.success) {
-        await setLastUpdate({
-          timestamp: new Date().toISOString(),
-          txHash: updateResult.txHash,
-          source: priceSource as any,
-          prices: updateResult.prices,
-          ethPrice: updateResult.ethPrice,
-        });
-        await resetErrorCount();
-      } else {
-        const errorCount = await incrementErrorCount();
-
-        if (errorCount >= CONFIG.alertAfterErrors) {
-          await sendAlert({
-            type: 'update_failure',
-            severity: 'critical',
-            title: 'Oracle: Update Failed',
-            body: `Oracle update failed ${errorCount} consecutive times. Error: ${updateResult.error}`,
-            data: { errorCount, error: updateResult.error },
-          });
-        }
-
-        if (errorCount >= CONFIG.maxConsecutiveErrors) {
-          await setKillSwitch(true);
-          await sendAlert({
-            type: 'watcher_error',
-            severity: 'critical',
-            title: 'Oracle Watcher Auto-Paused',
-            body: `Auto-paused after ${errorCount} consecutive failures.`,
-            data: { errorCount },
-          });
-        }
+    // ── 4. Anomaly alerts, once per tick (fetch-level anomalies repeat across targets) ──
+    const anomalies = new Map<string, Anomaly>();
+    for (const { analysis } of ready) {
+      for (const anomaly of analysis.anomalies) {
+        anomalies.set(`${anomaly.type}|${anomaly.metal ?? ''}|${anomaly.message}`, anomaly);
       }
-    } else if (killSwitchActive && analysis.shouldUpdate) {
-      logger.info('Kill switch active — skipping oracle update');
     }
+    if (anomalies.size > 0) {
+      await sendAnomalyAlerts([...anomalies.values()]);
+    }
+
+    // ── 5. Per target: quarantine, update, balance, decision (targets in parallel) ──
+    await Promise.all(ready.map(read =>
+      publishTarget(read, shared).catch(async (error: any) => {
+        const errorCount = await incrementErrorCount(read.target.id);
+        logger.error({ target: read.target.id, error: error.message, errorCount }, 'Target publish failed');
+      })));
 
-    // ── 8. Update status ──
+    // ── 6. Update status ──
     const cycleDuration = Date.now() - cycleStart;
     const status = await getStatus();
+    const errorCounts = await Promise.all(targets.map(t => getErrorCount(t.id)));
+    const allPaused = ready.length > 0 && ready.every(r => r.killSwitch);
+    const anyDegraded = ready.some(r => r.degraded) || ready.length < targets.length;
     await setStatus({
-      state: killSwitchActive ? 'paused' : 'running',
+      state: allPaused ? 'paused' : anyDegraded ? 'degraded' : 'running',
       uptimeStart: status.uptimeStart || new Date().toISOString(),
-      errorCount: await getErrorCount(),
+      errorCount: Math.max(0, ...errorCounts),
       lastCycleMs: cycleDuration,
     });
 
-    // ── 9. Push price snapshot ──
+    // ── 7. Push price snapshot (on-chain side from the primary target) ──
+    const primary = ready.find(r => r.target.id === targets[0].id) ?? ready[0];
+    const perTarget: PriceSnapshot['targets'] = {};
+    for (const r of ready) {
+      perTarget[r.target.id] = { onChain: r.onChain, deviations: r.analysis.deviations, degraded: r.degraded };
+    }
     await pushPriceSnapshot({
       timestamp: new Date().toISOString(),
-      fetched: fetchedPrices,
-      onChain: onChainPrices,
-      deviations: analysis.deviations,
-      source: priceSource as any,
+      fetched: shared.prices,
+      onChain: primary?.onChain ?? { gold: 0, silver: 0, platinum: 0, palladium: 0 },
+      deviations: primary?.analysis.deviations ?? {},
+      source: shared.source,
+      attribution: shared.attribution,
+      sourceQuotes: shared.sourceQuotes,
+      degraded: primary?.degraded ?? true,
+      targets: perTarget,
     });
 
     logger.info({
       cycleDuration,
-      source: priceSource,
-      shouldUpdate: analysis.shouldUpdate,
-      killSwitch: killSwitchActive,
-      anomalies: analysis.anomalies.length,
+      shadow: CONFIG.shadowMode || undefined,
+      source: shared.source,
+      ethSource: ethResult.source,
+      targets: ready.map(r => ({
+        id: r.target.id,
+        shouldUpdate: r.analysis.shouldUpdate,
+        updateReason: r.analysis.updateReason,
+        killSwitch: r.killSwitch,
+        degraded: r.degraded,
+      })),
+      failedTargets: targets.length - ready.length,
+      anomalies: anomalies.size,
     }, `Tick complete (${cycleDuration}ms)`);
 
   } catch (error: any) {
-    const errorCount = await incrementErrorCount();
+    const errorCounts = await Promise.all(targets.map(t => incrementErrorCount(t.id)));
+    const errorCount = Math.max(0, ...errorCounts);
     logger.error({ error: error.message, errorCount }, 'Tick failed');
 
     const cycleDuration = Date.now() - cycleStart;
@@ -194,21 +453,44 @@ async function tick(): Promise<void> {
   }
 }
 
+/**
+ * Queue the next tick; the delay is re-evaluated every time so polling
+ * slows down as the market closes and speeds back up when it opens
+ */
+function scheduleNext(): void {
+  if (stopped) return;
+
+  const session = getMarketSession();
+  const delay = session.open ? CONFIG.pollIntervalMs : CONFIG.closedPollIntervalMs;
+  if (!session.open) {
+    logger.debug({ session: session.state, delay }, 'Market closed, slow polling');
+  }
+
+  timerHandle = setTimeout(async () => {
+    await tick();
+    scheduleNext();
+  }, delay);
+}
+
 export function startScheduler(): void {
-  logger.info({ intervalMs: CONFIG.pollIntervalMs }, 'Starting scheduler');
-  tick();
-  intervalHandle = setInterval(tick, CONFIG.pollIntervalMs);
+  logger.info({
+    intervalMs: CONFIG.pollIntervalMs,
+    closedIntervalMs: CONFIG.closedPollIntervalMs,
+  }, 'Starting scheduler');
+  stopped = false;
+  tick().finally(scheduleNext);
 }
 
 export function stopScheduler(): void {
-  if (intervalHandle) {
-    clearInterval(intervalHandle);
-    intervalHandle = null;
+  stopped = true;
+  if (timerHandle) {
+    clearTimeout(timerHandle);
+    timerHandle = null;
     logger.info('Scheduler stopped');
   }
 }
 
 export async function forceTick(): Promise<void> {
   logger.info('Force tick triggered by admin');
-  await tick();
+  await tick(true);
 }
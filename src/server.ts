@@ -19,8 +19,22 @@ import {
   getErrorCount,
   resetErrorCount,
   getPriceHistory,
+  getBreakerStates,
+  getQuarantines,
+  getSignerBalance,
+  getDecisions,
+  getEventCursor,
+  getOracleChanges,
 } from './services/redis-state';
 import { readOraclePrices } from './services/oracle-reader';
+import { getPendingUpdates } from './services/oracle-updater';
+import { getPoolHealth } from './services/rpc-pool';
+import { approveQuarantine } from './services/quarantine';
+import { getMarketSession } from './services/market-calendar';
+import { compareDecisions } from './services/decision-compare';
+import { getLedger } from './services/tx-ledger';
+import { getTargets, getTarget, getPrimaryTarget } from './services/targets';
+import type { Metal, MetalPrices, OracleTarget } from './types';
 
 const app = express();
 app.use(express.json());
@@ -46,6 +60,20 @@ function requireAuth(req: express.Request, res: express.Response, next: express.
   next();
 }
 
+/**
+ * Targets named by a request field: one by id, or every target when omitted.
+ * Returns null (and answers 400) for an unknown id.
+ */
+function selectTargets(id: unknown, res: express.Response): OracleTarget[] | null {
+  if (id === undefined || id === null || id === '') return getTargets();
+  const target = typeof id === 'string' ? getTarget(id) : undefined;
+  if (!target) {
+    res.status(400).json({ error: `Unknown target "${id}"`, targets: getTargets().map(t => t.id) });
+    return null;
+  }
+  return [target];
+}
+
 // ════════════════════════════════════════
 // CORS (allow admin panel to call)
 // ════════════════════════════════════════
@@ -78,76 +106,167 @@ app.get('/health', (req, res) => {
 });
 
 /**
- * GET /status — Detailed watcher status
+ * Per-target slice of /status: kill switch, last update, on-chain read, signer
+ */
+async function targetStatus(target: OracleTarget, fetched: MetalPrices | null) {
+  const [lastUpdate, killSwitch, errorCount, quarantine, pendingTxs, signer, decisions, rpc, eventCursor, changes] = await Promise.all([
+    getLastUpdate(target.id),
+    getKillSwitch(target.id),
+    getErrorCount(target.id),
+    getQuarantines(target.id),
+    getPendingUpdates(target).catch(() => []),
+    getSignerBalance(target.id),
+    getDecisions(target.id, 1),
+    getPoolHealth(target.rpcUrls),
+    getEventCursor(target.id),
+    getOracleChanges(target.id, 1),
+  ]);
+
+  // Try to read on-chain prices (optional, don't fail if RPC is down)
+  let onChainPrices = null;
+  const deviations: Record<string, number> = {};
+  try {
+    const oraclePrices = await readOraclePrices(target);
+    onChainPrices = {
+      gold: oraclePrices.gold,
+      silver: oraclePrices.silver,
+      platinum: oraclePrices.platinum,
+      palladium: oraclePrices.palladium,
+    };
+
+    // Calculate deviations if we have both
+    if (fetched) {
+      for (const metal of ['gold', 'silver', 'platinum', 'palladium'] as const) {
+        const onChain = onChainPrices[metal];
+        if (onChain > 0) {
+          deviations[metal] = Math.round(Math.abs((fetched[metal] - onChain) / onChain) * 10000) / 100;
+        }
+      }
+    }
+  } catch {
+    // RPC down, no on-chain prices available
+  }
+
+  const lastDecision = decisions[0] ?? null;
+  return {
+    id: target.id,
+    name: target.name,
+    oracleAddress: target.oracleAddress,
+    killSwitch,
+    consecutiveErrors: errorCount,
+    lastUpdate: lastUpdate ? {
+      timestamp: lastUpdate.timestamp,
+      prices: lastUpdate.prices,
+      ethPrice: lastUpdate.ethPrice,
+      source: lastUpdate.source,
+      txHash: lastUpdate.txHash,
+      reason: lastUpdate.reason || null,
+    } : null,
+    lastDecision: lastDecision ? {
+      timestamp: lastDecision.timestamp,
+      shouldUpdate: lastDecision.shouldUpdate,
+      updateReason: lastDecision.updateReason,
+      outcome: lastDecision.outcome,
+      degraded: lastDecision.degraded,
+      error: lastDecision.error || null,
+    } : null,
+    prices: {
+      onChain: onChainPrices,
+      deviations,
+    },
+    pendingTransactions: pendingTxs,
+    quarantine: quarantine,
+    rpc,
+    eventWatcher: {
+      enabled: CONFIG.eventWatcherEnabled,
+      cursorBlock: eventCursor?.blockNumber ?? null,
+      scannedAt: eventCursor?.updatedAt ?? null,
+      lastChange: changes[0] ?? null,
+    },
+    signer: signer ? {
+      backend: target.signer.backend,
+      address: signer.address,
+      balanceEth: signer.balanceEth,
+      level: signer.level,
+      runwayDays: signer.runwayDays,
+      dailySpendEth: signer.dailySpendEth,
+      avgCostEth: signer.avgCostEth,
+      updatesInWindow: signer.updatesInWindow,
+      checkedAt: signer.checkedAt,
+    } : { backend: target.signer.backend },
+    config: {
+      metals: target.metalThresholds,
+      fees: target.fees,
+    },
+  };
+}
+
+/**
+ * GET /status — Detailed watcher status, broken down per target
  */
 app.get('/status', async (req, res) => {
   try {
-    const [status, lastUpdate, lastFetch, killSwitch, override, errorCount] = await Promise.all([
+    const [status, lastFetch, override, breakers] = await Promise.all([
       getStatus(),
-      getLastUpdate(),
       getLastFetch(),
-      getKillSwitch(),
       getOverridePrices(),
-      getErrorCount(),
+      getBreakerStates(CONFIG.priceProviders),
     ]);
 
-    // Try to read on-chain prices (optional, don't fail if RPC is down)
-    let onChainPrices = null;
-    let deviations: Record<string, number> = {};
-    try {
-      const oraclePrices = await readOraclePrices();
-      onChainPrices = {
-        gold: oraclePrices.gold,
-        silver: oraclePrices.silver,
-        platinum: oraclePrices.platinum,
-        palladium: oraclePrices.palladium,
-      };
-
-      // Calculate deviations if we have both
-      if (lastFetch?.prices && onChainPrices) {
-        for (const metal of ['gold', 'silver', 'platinum', 'palladium'] as const) {
-          const fetched = lastFetch.prices[metal];
-          const onChain = onChainPrices[metal];
-          if (onChain > 0) {
-            deviations[metal] = Math.round(Math.abs((fetched - onChain) / onChain) * 10000) / 100;
-          }
-        }
-      }
-    } catch {
-      // RPC down, no on-chain prices available
-    }
+    const targets = await Promise.all(getTargets().map(t => targetStatus(t, lastFetch?.prices ?? null)));
 
     res.json({
       status: 'ok',
       version: '1.0.0',
       uptime: Math.round((Date.now() - startTime) / 1000),
       state: status.state,
-      killSwitch,
+      shadowMode: CONFIG.shadowMode,
+      namespace: CONFIG.redisNamespace,
       overrideActive: override !== null,
       overridePrices: override,
-      consecutiveErrors: errorCount,
+      consecutiveErrors: status.errorCount,
       lastCycleMs: status.lastCycleMs,
-      lastUpdate: lastUpdate ? {
-        timestamp: lastUpdate.timestamp,
-        prices: lastUpdate.prices,
-        ethPrice: lastUpdate.ethPrice,
-        source: lastUpdate.source,
-        txHash: lastUpdate.txHash,
-      } : null,
       lastFetch: lastFetch ? {
         timestamp: lastFetch.timestamp,
         source: lastFetch.source,
+        attribution: lastFetch.attribution || null,
+        ethPrice: lastFetch.ethPrice,
+        ethSource: lastFetch.ethSource,
         errors: lastFetch.errors,
+        rejections: lastFetch.rejections || [],
+        contributions: lastFetch.contributions || null,
       } : null,
+      market: getMarketSession(),
+      circuitBreakers: breakers,
+      quarantine: {
+        enabled: CONFIG.quarantineEnabled,
+        confirmTicks: CONFIG.quarantineConfirmTicks,
+      },
       prices: {
         current: lastFetch?.prices || null,
-        onChain: onChainPrices,
-        deviations,
       },
+      targets,
       config: {
         pollIntervalMs: CONFIG.pollIntervalMs,
+        closedPollIntervalMs: CONFIG.closedPollIntervalMs,
         deviationThresholdPct: CONFIG.deviationThresholdPct,
         anomalyThresholdPct: CONFIG.anomalyThresholdPct,
+        anomalyMode: CONFIG.anomalyMode,
+        degradedWritePolicy: CONFIG.degradedWritePolicy,
+        balance: {
+          warnEth: CONFIG.balanceWarnEth,
+          criticalEth: CONFIG.balanceCriticalEth,
+          runwayWarnDays: CONFIG.runwayWarnDays,
+          runwayCriticalDays: CONFIG.runwayCriticalDays,
+        },
+        heartbeatMs: CONFIG.heartbeatMs,
+        priceProviders: CONFIG.priceProviders,
+        aggregationMode: CONFIG.aggregationMode,
+        minQuorum: CONFIG.minQuorum,
+        outlierTolerancePct: CONFIG.outlierTolerancePct,
+        sourceComparison: CONFIG.sourceComparisonEnabled,
+        plausibility: CONFIG.plausibility,
+        maxQuoteAgeMs: CONFIG.maxQuoteAgeMs,
       },
     });
   } catch (error: any) {
@@ -156,26 +275,34 @@ app.get('/status', async (req, res) => {
 });
 
 /**
- * GET /prices — Current fetched and on-chain prices
+ * GET /prices — Current fetched prices and each target's on-chain prices
  */
 app.get('/prices', async (req, res) => {
   try {
+    const targets = getTargets();
     const [lastFetch, oraclePrices] = await Promise.all([
       getLastFetch(),
-      readOraclePrices().catch(() => null),
+      Promise.all(targets.map(t => readOraclePrices(t).catch(() => null))),
     ]);
 
+    const onChain: Record<string, unknown> = {};
+    targets.forEach((target, i) => {
+      const prices = oraclePrices[i];
+      onChain[target.id] = prices ? {
+        gold: prices.gold,
+        silver: prices.silver,
+        platinum: prices.platinum,
+        palladium: prices.palladium,
+        ethUsd: prices.ethUsd,
+      } : null;
+    });
+
     res.json({
       fetched: lastFetch?.prices || null,
       fetchedAt: lastFetch?.timestamp || null,
       source: lastFetch?.source || null,
-      onChain: oraclePrices ? {
-        gold: oraclePrices.gold,
-        silver: oraclePrices.silver,
-        platinum: oraclePrices.platinum,
-        palladium: oraclePrices.palladium,
-        ethUsd: oraclePrices.ethUsd,
-      } : null,
+      attribution: lastFetch?.attribution || null,
+      onChain,
     });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -195,32 +322,91 @@ app.get('/history', async (req, res) => {
   }
 });
 
+/**
+ * GET /decisions — Per-tick decisions for ?target= (default primary);
+ * ?namespace= reads another watcher's, read-only
+ */
+app.get('/decisions', async (req, res) => {
+  try {
+    const targets = selectTargets(req.query.target ?? getPrimaryTarget().id, res);
+    if (!targets) return;
+    const limit = Math.min(Number(req.query.limit) || 50, 200);
+    const namespace = typeof req.query.namespace === 'string' ? req.query.namespace : CONFIG.redisNamespace;
+    const decisions = await getDecisions(targets[0].id, limit, namespace);
+    res.json({ target: targets[0].id, namespace, count: decisions.length, decisions });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * GET /oracle-changes — On-chain writes to ?target= (default primary), newest first;
+ * ?foreign=true keeps only writes this watcher did not send
+ */
+app.get('/oracle-changes', async (req, res) => {
+  try {
+    const targets = selectTargets(req.query.target ?? getPrimaryTarget().id, res);
+    if (!targets) return;
+    const limit = Math.min(Number(req.query.limit) || 50, 200);
+    let changes = await getOracleChanges(targets[0].id, limit);
+    if (req.query.foreign === 'true') changes = changes.filter(c => !c.ours);
+    res.json({ target: targets[0].id, count: changes.length, changes });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * GET /decisions/compare — Our decisions vs COMPARE_NAMESPACE (live by default) for ?target=
+ */
+app.get('/decisions/compare', async (req, res) => {
+  try {
+    const targets = selectTargets(req.query.target ?? getPrimaryTarget().id, res);
+    if (!targets) return;
+    const limit = Math.min(Number(req.query.limit) || 50, 200);
+    const namespace = typeof req.query.namespace === 'string' ? req.query.namespace : undefined;
+    if (namespace === CONFIG.redisNamespace) {
+      res.status(400).json({ error: 'namespace must differ from this watcher\'s own' });
+      return;
+    }
+    res.json(await compareDecisions(targets[0].id, limit, namespace));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // ════════════════════════════════════════
 // Admin Endpoints (require auth)
 // ════════════════════════════════════════
 
 /**
- * POST /admin/kill-switch — Toggle kill switch
+ * POST /admin/kill-switch — Toggle kill switch ({ active, target? }; no target = all targets)
  */
 app.post('/admin/kill-switch', requireAuth, async (req, res) => {
   try {
-    const { active } = req.body;
+    const { active, target } = req.body;
     if (typeof active !== 'boolean') {
       res.status(400).json({ error: 'active (boolean) required' });
       return;
     }
+    const targets = selectTargets(target, res);
+    if (!targets) return;
+
+    for (const t of targets) {
+      await setKillSwitch(t.id, active);
 
-    await setKillSwitch(active);
+      // If disabling kill switch, also reset error count
+      if (!active) await resetErrorCount(t.id);
+    }
 
-    // If disabling kill switch, also reset error count
+    const ids = targets.map(t => t.id);
     if (!active) {
-      await resetErrorCount();
-      logger.info('Kill switch disabled + error count reset via admin API');
+      logger.info({ targets: ids }, 'Kill switch disabled + error count reset via admin API');
     } else {
-      logger.info('Kill switch enabled via admin API');
+      logger.info({ targets: ids }, 'Kill switch enabled via admin API');
     }
 
-    res.json({ success: true, killSwitch: active });
+    res.json({ success: true, killSwitch: active, targets: ids });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
@@ -265,6 +451,35 @@ app.delete('/admin/override', requireAuth, async (req, res) => {
   }
 });
 
+/**
+ * POST /admin/quarantine/approve — Release a held metal on the next tick
+ * ({ metal, target? }; no target = every target holding that metal)
+ */
+app.post('/admin/quarantine/approve', requireAuth, async (req, res) => {
+  try {
+    const { metal, target } = req.body;
+    if (!['gold', 'silver', 'platinum', 'palladium'].includes(metal)) {
+      res.status(400).json({ error: 'metal (gold | silver | platinum | palladium) required' });
+      return;
+    }
+    const targets = selectTargets(target, res);
+    if (!targets) return;
+
+    const approved: string[] = [];
+    for (const t of targets) {
+      if (await approveQuarantine(t.id, metal as Metal)) approved.push(t.id);
+    }
+    if (approved.length === 0) {
+      res.status(404).json({ error: `No pending quarantine for ${metal}` });
+      return;
+    }
+
+    res.json({ success: true, metal, targets: approved, message: 'Approved — will be written on next tick' });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 /**
  * POST /admin/force-update — Trigger immediate oracle update
  */
@@ -279,6 +494,48 @@ app.post('/admin/force-update', requireAuth, async (req, res) => {
   }
 });
 
+/**
+ * Date filter value: ISO timestamp, or YYYY-MM-DD (a bare `to` date covers that whole UTC day)
+ */
+function parseDateParam(value: unknown, endOfDay: boolean): number | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const ms = new Date(dateOnly ? `${value}T00:00:00.000Z` : value).getTime();
+  if (Number.isNaN(ms)) return null;
+  return dateOnly && endOfDay ? ms + 86_400_000 - 1 : ms;
+}
+
+/**
+ * GET /admin/transactions — Update attempt ledger for ?target= (default primary)
+ * ?from= & ?to= (default last 7 days), ?limit= (max 200) & ?offset= for paging;
+ * includes daily cost aggregates over the same range
+ */
+app.get('/admin/transactions', requireAuth, async (req, res) => {
+  try {
+    const targets = selectTargets(req.query.target ?? getPrimaryTarget().id, res);
+    if (!targets) return;
+
+    const fromMs = parseDateParam(req.query.from, false);
+    const toMs = parseDateParam(req.query.to, true);
+    if (fromMs === null || toMs === null) {
+      res.status(400).json({ error: 'from/to must be ISO timestamps or YYYY-MM-DD' });
+      return;
+    }
+    if (fromMs !== undefined && toMs !== undefined && fromMs > toMs) {
+      res.status(400).json({ error: 'from must be before to' });
+      return;
+    }
+
+    const limit = Math.min(Number(req.query.limit) || 50, 200);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+    const ledger = await getLedger(targets[0], { fromMs, toMs, offset, limit });
+    res.json({ target: targets[0].id, ...ledger });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // ════════════════════════════════════════
 // Start Server
 // ════════════════════════════════════════
@@ -13,10 +13,18 @@ import type { AlertPayload } from '../types';
  * Respects cooldown to prevent spam
  */
 export async function sendAlert(alert: AlertPayload): Promise<boolean> {
-  // Check cooldown
-  const onCooldown = await isAlertOnCooldown(alert.type);
+  // Shadow watcher: alerts are part of the decision, but nobody gets paged
+  if (CONFIG.shadowMode) {
+    logger.warn({ type: alert.type, severity: alert.severity, title: alert.title, body: alert.body },
+      '[shadow] Alert (not sent)');
+    return false;
+  }
+
+  // Check cooldown — per target when the alert names one, so targets don't mute each other
+  const targetId = typeof alert.data?.target === 'string' ? alert.data.target : undefined;
+  const onCooldown = await isAlertOnCooldown(alert.type, targetId);
   if (onCooldown) {
-    logger.debug({ type: alert.type }, 'Alert on cooldown, skipping');
+    logger.debug({ type: alert.type, target: targetId }, 'Alert on cooldown, skipping');
     return false;
   }
 
@@ -50,7 +58,7 @@ export async function sendAlert(alert: AlertPayload): Promise<boolean> {
 
     if (res.ok) {
       // Set cooldown
-      await setAlertCooldown(alert.type);
+      await setAlertCooldown(alert.type, targetId);
       logger.info({ type: alert.type }, 'Alert sent successfully');
       return true;
     } else {
@@ -68,7 +76,7 @@ export async function sendAlert(alert: AlertPayload): Promise<boolean> {
  * Send alerts for detected anomalies
  */
 export async function sendAnomalyAlerts(
-  anomalies: Array<{ type: string; severity: string; message: string; metal?: string; value?: number }>
+  anomalies: Array<{ type: string; severity: string; message: string; metal?: string; target?: string; value?: number }>
 ): Promise<void> {
   for (const anomaly of anomalies) {
     let alertType: AlertPayload['type'];
@@ -76,10 +84,33 @@ export async function sendAnomalyAlerts(
     switch (anomaly.type) {
       case 'price_spike':
       case 'price_crash':
+      case 'volatility_outlier':
+      case 'closed_market_move':
         alertType = 'price_anomaly';
         break;
+      case 'cross_metal_divergence':
+        // Ratio breaks are warnings — their own cooldown; isolated moves stay critical price anomalies
+        alertType = anomaly.severity === 'critical' ? 'price_anomaly' : 'cross_metal_divergence';
+        break;
+      case 'price_drift':
+        // Warning only — its own cooldown so it can't mute a critical price_anomaly
+        alertType = 'price_drift';
+        break;
+      case 'fallback_price':
+        // Critical = hardcoded value: its own cooldown, so stale-cache and
+        // all-sources-failed warnings (source_failure) can't mute it
+        alertType = anomaly.severity === 'critical' ? 'hardcoded_fallback' : 'source_failure';
+        break;
+      case 'source_divergence':
+        // Warning only — kept off the source_failure cooldown shared with critical alerts
+        alertType = 'source_divergence';
+        break;
       case 'source_failure':
-        alertType = 'source_failure';
+        // ETH on hardcoded fallback gets its own alert type (and cooldown)
+        alertType = anomaly.metal === 'eth' ? 'eth_fallback' : 'source_failure';
+        break;
+      case 'rpc_failure':
+        alertType = 'rpc_failure';
         break;
       case 'stale_data':
         alertType = 'oracle_stale';
@@ -91,10 +122,11 @@ export async function sendAnomalyAlerts(
     await sendAlert({
       type: alertType,
       severity: anomaly.severity as 'warning' | 'critical',
-      title: `Oracle Alert: ${anomaly.type.replace('_', ' ').replace(/\b\w/g, c => c.toUpperCase())}`,
+      title: `Oracle Alert: ${anomaly.type.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase())}`,
       body: anomaly.message,
       data: {
         metal: anomaly.metal,
+        target: anomaly.target,
         value: anomaly.value,
       },
     });
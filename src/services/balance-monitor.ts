@@ -0,0 +1,136 @@
+/**
+ * Balance Monitor — signer ETH balance, gas spend per update, runway
+ * Runway = balance / average daily spend over runwayWindowMs. The balance is
+ * read at most every balanceCheckIntervalMs, and right after each update.
+ */
+
+import { ethers } from 'ethers';
+import { CONFIG } from '../config';
+import { logger } from '../utils/logger';
+import { sendAlert } from './alert-service';
+import { pushGasSpend, getGasSpends, getSignerBalance, setSignerBalance } from './redis-state';
+import { getPoolProvider } from './rpc-pool';
+import type { BalanceLevel, OracleTarget, SignerBalanceRecord } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * L1 data fee of an OP-stack (Base) transaction, from the raw receipt's
+ * l1Fee field — ethers doesn't parse it. 0 on chains without one.
+ */
+async function l1FeeWei(receipt: ethers.TransactionReceipt): Promise<bigint> {
+  const provider = receipt.provider;
+  if (!(provider instanceof ethers.JsonRpcApiProvider)) return 0n;
+  try {
+    const raw = await provider.send('eth_getTransactionReceipt', [receipt.hash]);
+    return raw?.l1Fee ? BigInt(raw.l1Fee) : 0n;
+  } catch (error: any) {
+    logger.warn({ error: error.message, txHash: receipt.hash }, 'Could not read L1 fee — cost excludes it');
+    return 0n;
+  }
+}
+
+/**
+ * What a mined transaction cost the signer: L2 execution + L1 data fee
+ */
+export async function receiptCostWei(receipt: ethers.TransactionReceipt): Promise<bigint> {
+  return receipt.gasUsed * receipt.gasPrice + await l1FeeWei(receipt);
+}
+
+/**
+ * Record the ETH cost of a confirmed update; returns the cost in wei
+ */
+export async function recordGasSpend(targetId: string, receipt: ethers.TransactionReceipt): Promise<bigint> {
+  const costWei = await receiptCostWei(receipt);
+  try {
+    await pushGasSpend(targetId, {
+      timestamp: new Date().toISOString(),
+      txHash: receipt.hash,
+      gasUsed: receipt.gasUsed.toString(),
+      effectiveGasPrice: receipt.gasPrice.toString(),
+      costWei: costWei.toString(),
+    });
+  } catch (error: any) {
+    logger.error({ error: error.message, target: targetId, txHash: receipt.hash }, 'Failed to record gas spend');
+  }
+  return costWei;
+}
+
+function levelFor(balanceEth: number, runwayDays: number | null): BalanceLevel {
+  if (balanceEth < CONFIG.balanceCriticalEth) return 'critical';
+  if (runwayDays !== null && runwayDays < CONFIG.runwayCriticalDays) return 'critical';
+  if (balanceEth < CONFIG.balanceWarnEth) return 'warning';
+  if (runwayDays !== null && runwayDays < CONFIG.runwayWarnDays) return 'warning';
+  return 'ok';
+}
+
+/**
+ * Read the signer balance, estimate runway and alert below the configured levels
+ * @param address - signer address on the target's chain
+ * @param force - skip the check interval (e.g. right after an update)
+ */
+export async function checkSignerBalance(
+  target: OracleTarget,
+  address: string,
+  force = false,
+): Promise<SignerBalanceRecord | null> {
+  const previous = await getSignerBalance(target.id);
+  if (!force && previous?.address === address
+    && Date.now() - new Date(previous.checkedAt).getTime() < CONFIG.balanceCheckIntervalMs) {
+    return previous;
+  }
+
+  try {
+    const provider = getPoolProvider(target.rpcUrls);
+    const balanceWei = await provider.getBalance(address);
+    const balanceEth = Number(ethers.formatEther(balanceWei));
+
+    // Average daily spend over the window, extrapolated from the span we actually have
+    const spends = await getGasSpends(target.id, Date.now() - CONFIG.runwayWindowMs);
+    let avgCostEth: number | null = null;
+    let dailySpendEth: number | null = null;
+    let runwayDays: number | null = null;
+    if (spends.length > 0) {
+      const totalWei = spends.reduce((sum, s) => sum + BigInt(s.costWei), 0n);
+      const totalEth = Number(ethers.formatEther(totalWei));
+      const oldest = Math.min(...spends.map(s => new Date(s.timestamp).getTime()));
+      // At least a day: one fresh spend over a short span would extrapolate to a huge daily rate
+      const spanDays = Math.max(Date.now() - oldest, DAY_MS) / DAY_MS;
+
+      avgCostEth = totalEth / spends.length;
+      dailySpendEth = totalEth / spanDays;
+      runwayDays = dailySpendEth > 0 ? Math.round((balanceEth / dailySpendEth) * 10) / 10 : null;
+    }
+
+    const record: SignerBalanceRecord = {
+      address,
+      balanceEth,
+      checkedAt: new Date().toISOString(),
+      updatesInWindow: spends.length,
+      avgCostEth,
+      dailySpendEth,
+      runwayDays,
+      level: levelFor(balanceEth, runwayDays),
+    };
+    await setSignerBalance(target.id, record);
+
+    if (record.level !== 'ok') {
+      logger.warn({ target: target.id, address, balanceEth, runwayDays, level: record.level }, 'Signer balance low');
+      await sendAlert({
+        type: 'low_balance',
+        severity: record.level,
+        title: `Oracle: Signer Balance ${record.level === 'critical' ? 'Critical' : 'Low'} (${target.name})`,
+        body: `Signer ${address} on ${target.name} holds ${balanceEth.toFixed(4)} ETH`
+          + (runwayDays !== null ? ` — about ${runwayDays} days of updates at ${dailySpendEth!.toFixed(5)} ETH/day` : ''),
+        data: { ...record, target: target.id },
+      });
+    } else {
+      logger.debug({ target: target.id, address, balanceEth, runwayDays }, 'Signer balance checked');
+    }
+
+    return record;
+  } catch (error: any) {
+    logger.error({ error: error.message, target: target.id, address }, 'Failed to check signer balance');
+    return previous;
+  }
+}
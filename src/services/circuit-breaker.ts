@@ -0,0 +1,97 @@
+/**
+ * Circuit Breaker — per price provider, state persisted in Redis
+ *
+ * closed    → requests flow; N consecutive failures (or one 429) trip it
+ * open      → provider skipped until retryAt
+ * half_open → one replica claims the probe; success closes, failure re-opens
+ */
+
+import { CONFIG } from '../config';
+import { logger } from '../utils/logger';
+import {
+  getBreakerState,
+  setBreakerState,
+  claimBreakerProbe,
+  releaseBreakerProbe,
+} from './redis-state';
+import type { CircuitBreakerRecord } from '../types';
+
+function isRateLimitError(message: string): boolean {
+  return /rate limit|HTTP 429/i.test(message);
+}
+
+/**
+ * Whether a provider may be called this tick.
+ * Moves an expired open breaker to half_open and claims the probe.
+ */
+export async function canAttempt(source: string): Promise<boolean> {
+  const record = await getBreakerState(source);
+
+  if (record.state === 'closed') return true;
+
+  if (record.retryAt && new Date(record.retryAt).getTime() > Date.now()) {
+    return false;
+  }
+
+  // Cooldown elapsed (or already half-open): only one probe in flight
+  const claimed = await claimBreakerProbe(source);
+  if (!claimed) return false;
+
+  if (record.state === 'open') {
+    await setBreakerState({ ...record, state: 'half_open' });
+    logger.info({ source }, 'Circuit breaker half-open, probing');
+  }
+  return true;
+}
+
+export async function recordSuccess(source: string): Promise<void> {
+  const record = await getBreakerState(source);
+  const wasTripped = record.state !== 'closed';
+
+  // Skip the write on the hot path when nothing changed
+  if (!wasTripped && record.consecutiveFailures === 0 && record.lastSuccessAt) {
+    return;
+  }
+
+  await setBreakerState({
+    ...record,
+    state: 'closed',
+    consecutiveFailures: 0,
+    openedAt: null,
+    retryAt: null,
+    lastSuccessAt: new Date().toISOString(),
+  });
+
+  if (wasTripped) {
+    await releaseBreakerProbe(source);
+    logger.info({ source }, 'Circuit breaker closed after successful probe');
+  }
+}
+
+export async function recordFailure(source: string, message: string): Promise<CircuitBreakerRecord> {
+  const record = await getBreakerState(source);
+  const failures = record.consecutiveFailures + 1;
+  const rateLimited = isRateLimitError(message);
+  const shouldOpen = record.state === 'half_open' || rateLimited || failures >= CONFIG.breakerFailureThreshold;
+
+  const next: CircuitBreakerRecord = {
+    ...record,
+    consecutiveFailures: failures,
+    lastError: message,
+  };
+
+  if (shouldOpen) {
+    const cooldown = rateLimited ? CONFIG.breakerRateLimitCooldownMs : CONFIG.breakerCooldownMs;
+    const now = Date.now();
+    next.state = 'open';
+    next.openedAt = new Date(now).toISOString();
+    next.retryAt = new Date(now + cooldown).toISOString();
+    logger.warn({ source, failures, rateLimited, retryAt: next.retryAt }, 'Circuit breaker opened');
+  }
+
+  await setBreakerState(next);
+  if (record.state === 'half_open') {
+    await releaseBreakerProbe(source);
+  }
+  return next;
+}
@@ -0,0 +1,101 @@
+/**
+ * Cross-Metal Consistency — ratios and correlated moves between the four metals
+ * A real market move shows up in correlated peers too; one metal jumping while
+ * its peers sit flat is usually a single-symbol vendor glitch.
+ */
+
+import { CONFIG } from '../config';
+import { getPriceHistory } from './redis-state';
+import { FALLBACK_SOURCES } from './price-fetcher';
+import type { Anomaly, Metal, MetalPrices, PriceSnapshot, RatioStats } from '../types';
+
+const METAL_NAMES: Record<Metal, string> = {
+  gold: 'Gold',
+  silver: 'Silver',
+  platinum: 'Platinum',
+  palladium: 'Palladium',
+};
+
+// Peers expected to move with each metal
+const PEERS: Record<Metal, Metal[]> = {
+  gold: ['silver', 'platinum'],
+  silver: ['gold'],
+  platinum: ['palladium', 'gold'],
+  palladium: ['platinum'],
+};
+
+const RATIO_PAIRS: Array<[Metal, Metal]> = [
+  ['gold', 'silver'],
+  ['platinum', 'palladium'],
+  ['gold', 'platinum'],
+];
+
+function isLive(snap: PriceSnapshot): boolean {
+  const metals: Metal[] = ['gold', 'silver', 'platinum', 'palladium'];
+  return metals.every(m => {
+    const source = snap.attribution?.[m]?.source ?? snap.source;
+    return snap.fetched?.[m] > 0 && !FALLBACK_SOURCES.includes(source);
+  });
+}
+
+function pctChange(current: number, previous: number): number {
+  return ((current - previous) / previous) * 100;
+}
+
+const round = (v: number) => Math.round(v * 10000) / 10000;
+
+/**
+ * Compare current prices against recent live history.
+ * Returns anomalies plus the tracked ratios (empty when there is no history yet).
+ */
+export async function checkCrossMetal(
+  current: MetalPrices,
+): Promise<{ anomalies: Anomaly[]; ratios: Record<string, RatioStats> }> {
+  const anomalies: Anomaly[] = [];
+  const ratios: Record<string, RatioStats> = {};
+
+  const history = (await getPriceHistory(CONFIG.crossMetalWindow)).filter(isLive);
+  if (history.length === 0) return { anomalies, ratios };
+
+  // ── Isolated move vs previous live tick ──
+  const previous = history[0].fetched;
+  const moves = {} as Record<Metal, number>;
+  for (const metal of Object.keys(PEERS) as Metal[]) {
+    moves[metal] = pctChange(current[metal], previous[metal]);
+  }
+
+  for (const metal of Object.keys(PEERS) as Metal[]) {
+    if (Math.abs(moves[metal]) <= CONFIG.isolatedMovePct) continue;
+    const peersFlat = PEERS[metal].every(p => Math.abs(moves[p]) < CONFIG.peerFlatPct);
+    if (!peersFlat) continue;
+
+    anomalies.push({
+      type: 'cross_metal_divergence',
+      metal,
+      severity: 'critical',
+      message: `${METAL_NAMES[metal]} moved ${moves[metal].toFixed(2)}% while ${PEERS[metal].map(p => `${METAL_NAMES[p]} ${moves[p].toFixed(2)}%`).join(', ')} stayed flat`,
+      value: round(moves[metal]),
+    });
+  }
+
+  // ── Ratio vs window average ──
+  for (const [a, b] of RATIO_PAIRS) {
+    const key = `${a}/${b}`;
+    const now = current[a] / current[b];
+    const average = history.reduce((sum, s) => sum + s.fetched[a] / s.fetched[b], 0) / history.length;
+    const deviationPct = pctChange(now, average);
+
+    ratios[key] = { current: round(now), average: round(average), deviationPct: round(deviationPct) };
+
+    if (Math.abs(deviationPct) > CONFIG.ratioTolerancePct) {
+      anomalies.push({
+        type: 'cross_metal_divergence',
+        severity: 'warning',
+        message: `${key} ratio ${now.toFixed(3)} is ${deviationPct.toFixed(2)}% off its ${history.length}-snapshot average ${average.toFixed(3)}`,
+        value: round(deviationPct),
+      });
+    }
+  }
+
+  return { anomalies, ratios };
+}
@@ -0,0 +1,68 @@
+/**
+ * Decision Compare — pairs this watcher's tick decisions for a target with
+ * another namespace's (normally shadow vs live) by nearest timestamp
+ */
+
+import { CONFIG } from '../config';
+import { getDecisions } from './redis-state';
+import type { DecisionRecord } from '../types';
+
+export interface DecisionPair {
+  timestamp: string;
+  ours: DecisionRecord;
+  theirs: DecisionRecord | null;  // no tick of theirs within one poll interval
+  agree: boolean | null;          // same shouldUpdate + updateReason
+}
+
+export interface DecisionComparison {
+  target: string;
+  namespace: string;
+  compareNamespace: string;
+  summary: {
+    compared: number;
+    agreed: number;
+    oursOnly: number;    // we would update, they did not
+    theirsOnly: number;  // they updated, we would not
+    unmatched: number;
+  };
+  pairs: DecisionPair[];
+}
+
+export async function compareDecisions(
+  targetId: string,
+  limit: number,
+  compareNamespace: string = CONFIG.compareNamespace,
+): Promise<DecisionComparison> {
+  const [ours, theirs] = await Promise.all([
+    getDecisions(targetId, limit),
+    // Their ticks may be offset from ours: read a little further back
+    getDecisions(targetId, limit * 2, compareNamespace),
+  ]);
+
+  const theirTimes = theirs.map(d => new Date(d.timestamp).getTime());
+  const summary = { compared: 0, agreed: 0, oursOnly: 0, theirsOnly: 0, unmatched: 0 };
+
+  const pairs = ours.map((decision): DecisionPair => {
+    const t = new Date(decision.timestamp).getTime();
+    let best = -1;
+    for (let i = 0; i < theirs.length; i++) {
+      if (best < 0 || Math.abs(theirTimes[i] - t) < Math.abs(theirTimes[best] - t)) best = i;
+    }
+
+    if (best < 0 || Math.abs(theirTimes[best] - t) > CONFIG.pollIntervalMs) {
+      summary.unmatched++;
+      return { timestamp: decision.timestamp, ours: decision, theirs: null, agree: null };
+    }
+
+    const match = theirs[best];
+    const agree = match.shouldUpdate === decision.shouldUpdate && match.updateReason === decision.updateReason;
+    summary.compared++;
+    if (agree) summary.agreed++;
+    else if (decision.shouldUpdate && !match.shouldUpdate) summary.oursOnly++;
+    else if (match.shouldUpdate && !decision.shouldUpdate) summary.theirsOnly++;
+
+    return { timestamp: decision.timestamp, ours: decision, theirs: match, agree };
+  });
+
+  return { target: targetId, namespace: CONFIG.redisNamespace, compareNamespace, summary, pairs };
+}
@@ -0,0 +1,144 @@
+/**
+ * ETH/USD Price Fetcher
+ * Independent of the metal providers — setAllPrices needs an ETH price on
+ * every path (live, stale, override), so it gets its own source chain:
+ *   Chainlink aggregator → CoinGecko → last on-chain oracle value → Hardcoded
+ *
+ * Each candidate is bounds-checked before it is accepted. The hardcoded
+ * fallback is never returned without a critical anomaly attached.
+ */
+
+import { ethers } from 'ethers';
+import { CONFIG } from '../config';
+import { logger } from '../utils/logger';
+import { readOraclePrices } from './oracle-reader';
+import { getPrimaryTarget } from './targets';
+import { getPoolProvider } from './rpc-pool';
+import { getLastEthPrice, setLastEthPrice } from './redis-state';
+import type { Anomaly, EthFetchResult, EthPriceSource } from '../types';
+
+// ════════════════════════════════════════
+// Source: Chainlink-style aggregator
+// ════════════════════════════════════════
+
+async function fetchFromChainlink(): Promise<number> {
+  const provider = getPoolProvider(CONFIG.rpcUrls.length > 0 ? CONFIG.rpcUrls : [CONFIG.rpcUrl]);
+  const feed = new ethers.Contract(CONFIG.ethUsdFeedAddress, CONFIG.ethUsdFeedAbi, provider);
+
+  const [decimals, round] = await Promise.all([feed.decimals(), feed.latestRoundData()]);
+  const answer: bigint = round.answer;
+  const updatedAt = Number(round.updatedAt) * 1000;
+
+  if (answer <= 0n) throw new Error(`non-positive answer ${answer}`);
+
+  const ageMs = Date.now() - updatedAt;
+  if (ageMs > CONFIG.ethFeedMaxAgeMs) {
+    throw new Error(`feed stale (${Math.round(ageMs / 60000)} min old)`);
+  }
+
+  return Number(ethers.formatUnits(answer, decimals));
+}
+
+// ════════════════════════════════════════
+// Source: CoinGecko
+// ════════════════════════════════════════
+
+async function fetchFromCoinGecko(): Promise<number> {
+  const res = await fetch(CONFIG.coingeckoEthUrl);
+  if (res.status === 429) throw new Error('rate limited');
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+  const data = await res.json() as { ethereum?: { usd?: number } };
+  const price = data.ethereum?.usd;
+  if (!price) throw new Error('no ethereum.usd in response');
+  return price;
+}
+
+// ════════════════════════════════════════
+// Source: last value already on the (primary target's) oracle
+// ════════════════════════════════════════
+
+async function fetchFromOracle(): Promise<number> {
+  const onChain = await readOraclePrices(getPrimaryTarget());
+  return onChain.ethUsd;
+}
+
+const ETH_SOURCES: Record<string, { source: EthPriceSource; fetch: () => Promise<number> }> = {
+  chainlink: { source: 'chainlink', fetch: fetchFromChainlink },
+  coingecko: { source: 'coingecko', fetch: fetchFromCoinGecko },
+  oracle: { source: 'oracle-last', fetch: fetchFromOracle },
+};
+
+// ════════════════════════════════════════
+// Sanity checks
+// ════════════════════════════════════════
+
+function checkBounds(price: number): string | null {
+  if (!Number.isFinite(price) || price <= 0) return `invalid price ${price}`;
+  if (price < CONFIG.ethMinPrice || price > CONFIG.ethMaxPrice) {
+    return `$${price.toFixed(2)} outside bounds [$${CONFIG.ethMinPrice}, $${CONFIG.ethMaxPrice}]`;
+  }
+  return null;
+}
+
+function detectEthAnomaly(price: number, previous: number): Anomaly | null {
+  if (previous <= 0) return null;
+
+  const changePct = ((price - previous) / previous) * 100;
+  const absChange = Math.abs(changePct);
+  if (absChange <= CONFIG.ethAnomalyThresholdPct) return null;
+
+  const isSpike = changePct > 0;
+  return {
+    type: isSpike ? 'price_spike' : 'price_crash',
+    metal: 'eth',
+    severity: 'critical',
+    message: `ETH ${isSpike ? 'spiked' : 'crashed'} ${absChange.toFixed(1)}% ($${previous.toFixed(2)} → $${price.toFixed(2)})`,
+    value: Math.round(changePct * 100) / 100,
+  };
+}
+
+// ════════════════════════════════════════
+// Main Fetch Function
+// ════════════════════════════════════════
+
+export async function fetchEthPrice(): Promise<EthFetchResult> {
+  const errors: string[] = [];
+  const anomalies: Anomaly[] = [];
+  const previous = await getLastEthPrice();
+
+  for (const id of CONFIG.ethPriceSources) {
+    const entry = ETH_SOURCES[id];
+    if (!entry) {
+      logger.warn({ source: id, known: Object.keys(ETH_SOURCES) }, 'Unknown ETH price source in config, skipping');
+      continue;
+    }
+
+    try {
+      const price = await entry.fetch();
+      const rejection = checkBounds(price);
+      if (rejection) throw new Error(rejection);
+
+      const anomaly = previous ? detectEthAnomaly(price, previous.price) : null;
+      if (anomaly) anomalies.push(anomaly);
+
+      await setLastEthPrice({ timestamp: new Date().toISOString(), price, source: entry.source });
+      logger.debug({ source: entry.source, price: price.toFixed(2) }, 'ETH price fetched');
+      return { price, source: entry.source, errors, anomalies };
+    } catch (error: any) {
+      errors.push(`ETH ${id}: ${error.message}`);
+      logger.warn({ source: id, error: error.message }, 'ETH price source failed');
+    }
+  }
+
+  logger.error({ errors }, 'All ETH price sources failed, using hardcoded fallback');
+  anomalies.push({
+    type: 'source_failure',
+    metal: 'eth',
+    severity: 'critical',
+    message: `All ETH price sources failed — hardcoded $${CONFIG.ethFallbackPrice} in use. Errors: ${errors.join('; ')}`,
+    value: CONFIG.ethFallbackPrice,
+  });
+
+  return { price: CONFIG.ethFallbackPrice, source: 'hardcoded', errors, anomalies };
+}
@@ -0,0 +1,346 @@
+/**
+ * Event Watcher — every write to AuxiteMetalOracleV2, not just ours
+ *
+ * Follows each target's oracle from a block cursor stored in Redis:
+ *   1. eth_getLogs for the oracle address over (cursor, head - confirmations]
+ *   2. each emitting transaction, plus our own broadcasts mined in the range
+ *      (recorded with their payload at send time, so found even without an
+ *      event) → sender, block time, decoded method, new values
+ *   3. values just before each of those and at the end of the range vs the
+ *      last known → catches a change that emitted no log at all
+ * A write whose hash the tx manager did not record raises a critical
+ * 'foreign_write' alert (legacy daemon still running, key used elsewhere…).
+ */
+
+import { ethers } from 'ethers';
+import { CONFIG } from '../config';
+import { logger } from '../utils/logger';
+import { sendAlert } from './alert-service';
+import { readOraclePricesE6 } from './oracle-reader';
+import { getPoolProvider } from './rpc-pool';
+import { getSignerAddress } from './signers';
+import { getTargets } from './targets';
+import {
+  claimEventScan,
+  releaseEventScan,
+  getEventCursor,
+  setEventCursor,
+  getOwnTx,
+  getOwnTxsSince,
+  markOwnTxMined,
+  pushOracleChange,
+} from './redis-state';
+import type { OraclePricesE6 } from './oracle-reader';
+import type { OracleChangeRecord, OracleEventCursor, OracleTarget, OwnTxRecord } from '../types';
+
+const FIELDS = ['gold', 'silver', 'platinum', 'palladium', 'eth'] as const;
+
+// Own broadcasts considered for a range: sent up to this long before its first block
+const OWN_TX_LOOKBACK_MS = 60 * 60 * 1000;
+
+const oracleInterface = new ethers.Interface([...CONFIG.oracleAbi, ...CONFIG.oracleErrorAbi]);
+
+let timerHandle: ReturnType<typeof setTimeout> | null = null;
+let stopped = true;
+
+function toE6(price: number): bigint {
+  return BigInt(Math.round(price * 1_000_000));
+}
+
+function toE6Strings(values: OraclePricesE6): Record<string, string> {
+  return Object.fromEntries(FIELDS.map(f => [f, values[f].toString()]));
+}
+
+function sameValues(a: Record<string, string> | null, b: Record<string, string> | null): boolean {
+  if (!a || !b) return true;  // unknown on either side: nothing to compare
+  return FIELDS.every(f => a[f] === b[f]);
+}
+
+function fromE6(values: Record<string, string> | null): Pick<OracleChangeRecord, 'prices' | 'ethPrice'> {
+  if (!values) return { prices: null, ethPrice: null };
+  const usd = (f: string) => Number(values[f]) / 1_000_000;
+  return {
+    prices: { gold: usd('gold'), silver: usd('silver'), platinum: usd('platinum'), palladium: usd('palladium') },
+    ethPrice: usd('eth'),
+  };
+}
+
+/**
+ * Oracle values at a block; null when the node has pruned that state
+ */
+async function readValuesAt(target: OracleTarget, blockNumber: number): Promise<Record<string, string> | null> {
+  try {
+    return toE6Strings(await readOraclePricesE6(target, blockNumber));
+  } catch (error: any) {
+    logger.debug({ target: target.id, blockNumber, error: error.message }, 'Historical oracle read failed');
+    return null;
+  }
+}
+
+/**
+ * Values a transaction wrote: decoded from setAllPrices calldata when possible
+ * (exact, needs no historical state), otherwise read at its block
+ */
+async function valuesWritten(
+  target: OracleTarget,
+  parsed: ethers.TransactionDescription | null,
+  own: OwnTxRecord | null,
+  blockNumber: number,
+): Promise<Record<string, string> | null> {
+  if (parsed?.name === 'setAllPrices') {
+    return Object.fromEntries(FIELDS.map((f, i) => [f, parsed.args[i].toString()]));
+  }
+  if (own?.payload) {
+    const { prices, ethPrice } = own.payload;
+    return toE6Strings({
+      gold: toE6(prices.gold),
+      silver: toE6(prices.silver),
+      platinum: toE6(prices.platinum),
+      palladium: toE6(prices.palladium),
+      eth: toE6(ethPrice),
+    });
+  }
+  return readValuesAt(target, blockNumber);
+}
+
+async function alertForeignWrites(target: OracleTarget, foreign: OracleChangeRecord[], ourSigner: string | null): Promise<void> {
+  const lines = foreign.map(c => {
+    const who = c.from ? `${c.from}${c.fromOurSigner ? ' (OUR SIGNER)' : ''}` : 'unknown sender';
+    const what = c.txHash ? `${c.method} tx ${c.txHash}` : 'change with no logged transaction';
+    const gold = c.prices ? `, gold $${c.prices.gold.toFixed(2)}` : '';
+    return `block ${c.blockNumber}: ${what} from ${who}${gold}`;
+  });
+
+  await sendAlert({
+    type: 'foreign_write',
+    severity: 'critical',
+    title: `Oracle: Unrecognized Write (${target.name})`,
+    body: `${foreign.length} oracle write(s) not sent by this watcher:\n${lines.join('\n')}`,
+    data: {
+      target: target.id,
+      oracleAddress: target.oracleAddress,
+      ourSigner,
+      txHashes: foreign.map(c => c.txHash),
+      senders: [...new Set(foreign.map(c => c.from))],
+    },
+  });
+}
+
+async function blockTime(provider: ethers.Provider, blockNumber: number): Promise<string | null> {
+  const block = await provider.getBlock(blockNumber);
+  return block ? new Date(block.timestamp * 1000).toISOString() : null;
+}
+
+/**
+ * Value change with no transaction to attribute it to, seen at blockNumber
+ */
+async function unexplainedChange(
+  provider: ethers.Provider,
+  blockNumber: number,
+  values: Record<string, string> | null,
+): Promise<OracleChangeRecord> {
+  return {
+    txHash: null,
+    blockNumber,
+    blockTime: await blockTime(provider, blockNumber),
+    from: null,
+    method: 'unknown',
+    ours: false,
+    fromOurSigner: false,
+    ...fromE6(values),
+    detectedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Our broadcasts mined in [fromBlock, toBlock], from the hashes recorded at
+ * send time. Receipts are only fetched for nonces with no mined hash yet.
+ * Reverted ones are left out: they wrote nothing.
+ */
+async function ownTxsMinedIn(
+  target: OracleTarget,
+  provider: ethers.Provider,
+  fromBlock: number,
+  toBlock: number,
+): Promise<Array<{ hash: string; blockNumber: number; index: number }>> {
+  const fromBlockTime = await blockTime(provider, fromBlock);
+  const since = (fromBlockTime ? new Date(fromBlockTime).getTime() : Date.now()) - OWN_TX_LOOKBACK_MS;
+  const own = await getOwnTxsSince(target.id, since);
+  const minedNonces = new Set(own.filter(o => o.blockNumber !== undefined).map(o => o.nonce));
+
+  const mined: Array<{ hash: string; blockNumber: number; index: number }> = [];
+  for (const record of own) {
+    if (record.blockNumber === undefined && minedNonces.has(record.nonce)) continue;  // replaced
+    if (record.blockNumber !== undefined && (record.blockNumber < fromBlock || record.blockNumber > toBlock)) continue;
+
+    const receipt = await provider.getTransactionReceipt(record.hash);
+    if (!receipt) continue;
+    if (record.blockNumber === undefined) await markOwnTxMined(target.id, record.hash, receipt.blockNumber);
+    if (receipt.status === 1 && receipt.blockNumber >= fromBlock && receipt.blockNumber <= toBlock) {
+      mined.push({ hash: receipt.hash, blockNumber: receipt.blockNumber, index: receipt.index });
+    }
+  }
+  return mined;
+}
+
+/**
+ * Scan one target from its cursor up to head - eventConfirmations (at most
+ * eventMaxBlockRange blocks per call; the next poll continues)
+ */
+export async function scanTarget(target: OracleTarget): Promise<OracleChangeRecord[]> {
+  const provider = getPoolProvider(target.rpcUrls);
+  const safeBlock = (await provider.getBlockNumber()) - CONFIG.eventConfirmations;
+  if (safeBlock < 0) return [];
+
+  let cursor = await getEventCursor(target.id);
+  if (!cursor) {
+    // First run: start from now (or a configured lookback), nothing before it is judged
+    const startBlock = Math.max(0, safeBlock - CONFIG.eventInitialLookbackBlocks);
+    cursor = { blockNumber: startBlock, pricesE6: await readValuesAt(target, startBlock), updatedAt: new Date().toISOString() };
+    await setEventCursor(target.id, cursor);
+    logger.info({ target: target.id, block: startBlock }, 'Event watcher cursor initialized');
+    if (startBlock === safeBlock) return [];
+  }
+
+  const fromBlock = cursor.blockNumber + 1;
+  const toBlock = Math.min(safeBlock, cursor.blockNumber + CONFIG.eventMaxBlockRange);
+  if (toBlock < fromBlock) return [];
+
+  const logs = await provider.getLogs({ address: target.oracleAddress, fromBlock, toBlock });
+
+  // Transactions to look at: every one that emitted a log, plus our own mined
+  // in range (found even if setAllPrices emits no event)
+  const txs = new Map<string, { blockNumber: number; index: number }>();
+  for (const log of logs) {
+    if (!txs.has(log.transactionHash)) {
+      txs.set(log.transactionHash, { blockNumber: log.blockNumber, index: log.transactionIndex });
+    }
+  }
+  for (const own of await ownTxsMinedIn(target, provider, fromBlock, toBlock)) {
+    if (!txs.has(own.hash)) txs.set(own.hash, own);
+  }
+  const ordered = [...txs.entries()]
+    .sort(([, a], [, b]) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const ourSigner = await getSignerAddress(target);
+  const changes: OracleChangeRecord[] = [];
+  let known = cursor.pricesE6;
+  let lastBlock = cursor.blockNumber;
+
+  for (const [txHash, { blockNumber }] of ordered) {
+    // State moved since the last block looked at, with nothing to show for it
+    if (blockNumber > lastBlock) {
+      const before = await readValuesAt(target, blockNumber - 1);
+      if (!sameValues(known, before)) {
+        changes.push(await unexplainedChange(provider, blockNumber - 1, before));
+        known = before;
+      }
+    }
+    lastBlock = blockNumber;
+
+    const tx = await provider.getTransaction(txHash);
+    if (!tx) continue;
+
+    let parsed: ethers.TransactionDescription | null = null;
+    try {
+      parsed = oracleInterface.parseTransaction({ data: tx.data, value: tx.value });
+    } catch { /* not in our ABI */ }
+
+    const own = await getOwnTx(target.id, txHash);
+    const values = await valuesWritten(target, parsed, own, blockNumber);
+    // Logs that don't touch prices (roles, pause…) are not price changes
+    if (!own && parsed?.name !== 'setAllPrices' && (values === null || sameValues(known, values))) continue;
+
+    changes.push({
+      txHash,
+      blockNumber,
+      blockTime: await blockTime(provider, blockNumber),
+      from: tx.from,
+      method: parsed?.name ?? tx.data.slice(0, 10),
+      ours: own !== null,
+      fromOurSigner: !!ourSigner && tx.from.toLowerCase() === ourSigner.toLowerCase(),
+      ...fromE6(values),
+      detectedAt: new Date().toISOString(),
+    });
+    if (values) known = values;
+  }
+
+  // Anything after the last transaction that the scan doesn't explain
+  const endValues = await readValuesAt(target, toBlock);
+  if (!sameValues(known, endValues)) {
+    changes.push(await unexplainedChange(provider, toBlock, endValues));
+  }
+
+  for (const change of changes) {
+    await pushOracleChange(target.id, change);
+    logger[change.ours ? 'info' : 'error']({
+      target: target.id,
+      txHash: change.txHash,
+      block: change.blockNumber,
+      from: change.from,
+      method: change.method,
+      prices: change.prices,
+    }, change.ours ? 'Oracle write confirmed on-chain' : '🚨 Oracle write not sent by this watcher');
+  }
+
+  const foreign = changes.filter(c => !c.ours);
+  if (foreign.length > 0) await alertForeignWrites(target, foreign, ourSigner);
+
+  const next: OracleEventCursor = {
+    blockNumber: toBlock,
+    pricesE6: endValues ?? known,
+    updatedAt: new Date().toISOString(),
+  };
+  await setEventCursor(target.id, next);
+  logger.debug({ target: target.id, fromBlock, toBlock, logs: logs.length, changes: changes.length }, 'Oracle events scanned');
+
+  return changes;
+}
+
+async function poll(): Promise<void> {
+  for (const target of getTargets()) {
+    if (!(await claimEventScan(target.id))) continue;
+    try {
+      await scanTarget(target);
+    } catch (error: any) {
+      logger.error({ target: target.id, error: error.message }, 'Oracle event scan failed');
+    } finally {
+      await releaseEventScan(target.id);
+    }
+  }
+}
+
+function scheduleNext(): void {
+  if (stopped) return;
+  timerHandle = setTimeout(async () => {
+    await poll();
+    scheduleNext();
+  }, CONFIG.eventPollIntervalMs);
+}
+
+export function startEventWatcher(): void {
+  if (!CONFIG.eventWatcherEnabled) {
+    logger.info('Event watcher disabled (EVENT_WATCHER=false)');
+    return;
+  }
+  // A shadow watcher sends nothing, so every live write would look foreign
+  if (CONFIG.shadowMode) {
+    logger.info('Event watcher not started in shadow mode');
+    return;
+  }
+  logger.info({
+    intervalMs: CONFIG.eventPollIntervalMs,
+    confirmations: CONFIG.eventConfirmations,
+  }, 'Starting oracle event watcher');
+  stopped = false;
+  poll().finally(scheduleNext);
+}
+
+export function stopEventWatcher(): void {
+  stopped = true;
+  if (timerHandle) {
+    clearTimeout(timerHandle);
+    timerHandle = null;
+    logger.info('Event watcher stopped');
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Market Calendar — spot precious-metals sessions (America/New_York)
+ *
+ * Globex-style hours: Sunday 18:00 ET → Friday 17:00 ET, with a daily
+ * 17:00–18:00 ET maintenance break Monday–Thursday. Closed all day on
+ * New Year's Day, Good Friday, Christmas and any MARKET_HOLIDAYS dates.
+ */
+
+import { CONFIG } from '../config';
+
+export type MarketSessionState = 'open' | 'weekend' | 'daily_break' | 'holiday';
+
+export interface MarketSession {
+  open: boolean;
+  state: MarketSessionState;
+  etDate: string;  // YYYY-MM-DD in New York
+}
+
+const etFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/New_York',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  weekday: 'short',
+  hour: '2-digit',
+  hourCycle: 'h23',
+});
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+function toEastern(date: Date): { ymd: string; weekday: number; hour: number } {
+  const parts = Object.fromEntries(etFormatter.formatToParts(date).map(p => [p.type, p.value]));
+  return {
+    ymd: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS[parts.weekday],
+    hour: Number(parts.hour),
+  };
+}
+
+/**
+ * Good Friday for a given year (anonymous Gregorian Easter algorithm)
+ */
+function goodFriday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  const easter = new Date(Date.UTC(year, month - 1, day));
+  easter.setUTCDate(easter.getUTCDate() - 2);
+  return easter.toISOString().slice(0, 10);
+}
+
+function isHoliday(ymd: string): boolean {
+  const year = Number(ymd.slice(0, 4));
+  const monthDay = ymd.slice(5);
+  if (monthDay === '01-01' || monthDay === '12-25') return true;
+  if (ymd === goodFriday(year)) return true;
+  return CONFIG.marketHolidays.includes(ymd);
+}
+
+export function getMarketSession(date: Date = new Date()): MarketSession {
+  const { ymd, weekday, hour } = toEastern(date);
+
+  if (!CONFIG.marketCalendarEnabled) {
+    return { open: true, state: 'open', etDate: ymd };
+  }
+
+  if (isHoliday(ymd)) {
+    return { open: false, state: 'holiday', etDate: ymd };
+  }
+
+  const weekend = weekday === 6
+    || (weekday === 5 && hour >= 17)
+    || (weekday === 0 && hour < 18);
+  if (weekend) {
+    return { open: false, state: 'weekend', etDate: ymd };
+  }
+
+  if (weekday >= 1 && weekday <= 4 && hour === 17) {
+    return { open: false, state: 'daily_break', etDate: ymd };
+  }
+
+  return { open: true, state: 'open', etDate: ymd };
+}
@@ -6,13 +6,38 @@
 import { ethers } from 'ethers';
 import { CONFIG } from '../config';
 import { logger } from '../utils/logger';
-import type { MetalPrices } from '../types';
+import { getPoolProvider } from './rpc-pool';
+import type { MetalPrices, OracleTarget } from '../types';
 
-export async function readOraclePrices(): Promise<MetalPrices & { ethUsd: number }> {
-  const provider = new ethers.JsonRpcProvider(CONFIG.rpcUrl);
-  const oracle = new ethers.Contract(CONFIG.oracleAddress, CONFIG.oracleAbi, provider);
+export interface OraclePricesE6 {
+  gold: bigint;
+  silver: bigint;
+  platinum: bigint;
+  palladium: bigint;
+  eth: bigint;
+}
+
+/**
+ * Raw E6 values, for exact comparison against what was sent
+ */
+export async function readOraclePricesE6(target: OracleTarget, blockTag?: number): Promise<OraclePricesE6> {
+  const provider = getPoolProvider(target.rpcUrls);
+  const oracle = new ethers.Contract(target.oracleAddress, CONFIG.oracleAbi, provider);
+
+  const [gold, silver, platinum, palladium, eth] = await oracle.getAllPricesOzE6(
+    ...(blockTag !== undefined ? [{ blockTag }] : []),
+  );
+  return { gold, silver, platinum, palladium, eth };
+}
 
-  const [goldE6, silverE6, platinumE6, palladiumE6, ethE6] = await oracle.getAllPricesOzE6();
+export async function readOraclePrices(target: OracleTarget): Promise<MetalPrices & { ethUsd: number }> {
+  const {
+    gold: goldE6,
+    silver: silverE6,
+    platinum: platinumE6,
+    palladium: palladiumE6,
+    eth: ethE6,
+  } = await readOraclePricesE6(target);
 
   // E6 format: price_in_usd * 1e6, so divide by 1e6 to get $/oz
   const fromE6 = (val: bigint) => Number(val) / 1_000_000;
@@ -26,6 +51,7 @@ export async function readOraclePrices(): Promise<MetalPrices & { ethUsd: number
   };
 
   logger.debug({
+    target: target.id,
     gold: `$${prices.gold.toFixed(2)}`,
     silver: `$${prices.silver.toFixed(2)}`,
     platinum: `$${prices.platinum.toFixed(2)}`,
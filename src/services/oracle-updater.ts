@@ -2,13 +2,22 @@
  * Oracle Updater — submits price updates to AuxiteMetalOracleV2
  * Uses setAllPrices(gold, silver, platinum, palladium, eth) — single tx for all metals
  * Prices are in E6 format: $/oz * 1e6
+ * Simulation, fees, confirmation timeout and stuck-tx replacement are handled by tx-manager
  */
 
 import { ethers } from 'ethers';
 import { CONFIG } from '../config';
 import { logger } from '../utils/logger';
-import { withRetry } from '../utils/retry';
-import type { MetalPrices, UpdateResult } from '../types';
+import { sendManagedTransaction, reconcilePending, simulateTransaction, signerKey, TxManagerError } from './tx-manager';
+import type { SettleCallback } from './tx-manager';
+import { getLastUpdate, setLastUpdate, getPendingTransactions } from './redis-state';
+import { readOraclePricesE6 } from './oracle-reader';
+import { recordGasSpend } from './balance-monitor';
+import { recordReconciledUpdate } from './tx-ledger';
+import { getSigner, getSignerAddress, isSignerConfigured } from './signers';
+import { getTarget } from './targets';
+import { getPoolProvider } from './rpc-pool';
+import type { MetalPrices, OracleTarget, PendingTransaction, UpdateResult, VerificationResult } from '../types';
 
 // Convert price to E6 format (same as oracle daemon's toE6)
 function toE6(price: number): bigint {
@@ -16,72 +25,240 @@ function toE6(price: number): bigint {
 }
 
 /**
- * Update all oracle prices in a single transaction
+ * Wait verifyConfirmations blocks, then re-read the oracle and compare with
+ * what was sent. Catches a racing writer or a contract ignoring some inputs.
+ */
+async function verifyUpdate(
+  target: OracleTarget,
+  provider: ethers.Provider,
+  txHash: string,
+  sent: Record<string, bigint>,
+): Promise<VerificationResult> {
+  try {
+    const receipt = await provider.waitForTransaction(txHash, CONFIG.verifyConfirmations, CONFIG.verifyTimeoutMs);
+    if (!receipt) throw new Error('transaction not mined');
+    // The block where it reached verifyConfirmations, pinned explicitly — a
+    // lagging pool endpoint's "latest" could predate the write
+    const blockNumber = receipt.blockNumber + Math.max(CONFIG.verifyConfirmations, 1) - 1;
+    const read = await readOraclePricesE6(target, blockNumber);
+
+    const mismatches: VerificationResult['mismatches'] = [];
+    for (const [field, sentE6] of Object.entries(sent)) {
+      const readE6 = read[field as keyof typeof read];
+      const diff = readE6 > sentE6 ? readE6 - sentE6 : sentE6 - readE6;
+      if (diff > BigInt(CONFIG.verifyToleranceE6)) {
+        mismatches.push({ field, sentE6: sentE6.toString(), readE6: readE6.toString() });
+      }
+    }
+
+    if (mismatches.length > 0) {
+      logger.error({ target: target.id, txHash, blockNumber, mismatches }, 'Oracle verification failed — on-chain values differ from sent');
+    } else {
+      logger.info({ target: target.id, txHash, blockNumber, confirmations: CONFIG.verifyConfirmations, txBlock: receipt.blockNumber },
+        'Oracle update verified on-chain');
+    }
+    return { verified: mismatches.length === 0, blockNumber, mismatches };
+  } catch (error: any) {
+    logger.warn({ target: target.id, txHash, error: error.message }, 'Oracle verification read failed');
+    return { verified: null, mismatches: [], error: error.message };
+  }
+}
+
+/**
+ * Shadow mode signer: can simulate as the oracle writer but cannot sign
+ */
+async function getShadowSigner(target: OracleTarget, provider: ethers.Provider): Promise<ethers.Signer> {
+  const from = CONFIG.shadowFromAddress || await getSignerAddress(target);
+  if (!from) throw new Error('Shadow mode needs SHADOW_FROM_ADDRESS or a configured signer to simulate as');
+  return new ethers.VoidSigner(from, provider);
+}
+
+/**
+ * Update all oracle prices on one target in a single transaction
+ * @param target - deployment to write to (RPC, address, signer, fee limits)
  * @param prices - Spot prices in $/oz
  * @param ethPrice - ETH price in USD
+ * @param options.severe - deviation is large enough to send above the gas ceiling
  */
 export async function updateOracle(
+  target: OracleTarget,
   prices: MetalPrices,
   ethPrice: number,
+  options: { severe?: boolean } = {},
 ): Promise<UpdateResult> {
   try {
-    if (!CONFIG.privateKey) {
-      throw new Error('PRIVATE_KEY not set');
+    if (!CONFIG.shadowMode && !isSignerConfigured(target)) {
+      throw new Error(`Signer not configured for target ${target.id} (backend ${target.signer.backend})`);
     }
 
-    const provider = new ethers.JsonRpcProvider(CONFIG.rpcUrl);
-    const wallet = new ethers.Wallet(CONFIG.privateKey, provider);
-    const oracle = new ethers.Contract(CONFIG.oracleAddress, CONFIG.oracleAbi, wallet);
+    const provider = getPoolProvider(target.rpcUrls);
+    const signer = CONFIG.shadowMode ? await getShadowSigner(target, provider) : await getSigner(target, provider);
+    const oracle = new ethers.Contract(target.oracleAddress, [...CONFIG.oracleAbi, ...CONFIG.oracleErrorAbi], signer);
 
     logger.info({
+      target: target.id,
       gold: `$${prices.gold.toFixed(2)}`,
       silver: `$${prices.silver.toFixed(2)}`,
       platinum: `$${prices.platinum.toFixed(2)}`,
       palladium: `$${prices.palladium.toFixed(2)}`,
       eth: `$${ethPrice.toFixed(2)}`,
-      from: wallet.address,
-    }, 'Submitting setAllPrices tx');
+      from: await signer.getAddress(),
+    }, CONFIG.shadowMode ? '[shadow] Building setAllPrices tx' : 'Submitting setAllPrices tx');
 
     // Single transaction for all prices
-    const tx = await withRetry(
-      async () => oracle.setAllPrices(
-        toE6(prices.gold),
-        toE6(prices.silver),
-        toE6(prices.platinum),
-        toE6(prices.palladium),
-        toE6(ethPrice),
-      ),
-      { maxRetries: 3, baseDelayMs: 2000, label: 'oracle-setAllPrices' },
+    const sentE6 = {
+      gold: toE6(prices.gold),
+      silver: toE6(prices.silver),
+      platinum: toE6(prices.platinum),
+      palladium: toE6(prices.palladium),
+      eth: toE6(ethPrice),
+    };
+    const request = await oracle.setAllPrices.populateTransaction(
+      sentE6.gold,
+      sentE6.silver,
+      sentE6.platinum,
+      sentE6.palladium,
+      sentE6.eth,
     );
 
-    logger.info({ txHash: tx.hash }, 'Oracle tx submitted, waiting for confirmation...');
+    // Shadow: stop after simulation — nothing is signed or sent
+    if (CONFIG.shadowMode) {
+      const gasLimit = await simulateTransaction(signer, request, oracle.interface);
+      logger.info({
+        target: target.id,
+        to: request.to,
+        data: request.data,
+        gasLimit: gasLimit.toString(),
+        e6: Object.fromEntries(Object.entries(sentE6).map(([k, v]) => [k, v.toString()])),
+      }, '[shadow] setAllPrices simulated OK — not sent');
+      return { success: true, txHash: '', prices, ethPrice, dryRun: true, simulatedGas: gasLimit.toString() };
+    }
+
+    const sent = await sendManagedTransaction(target, signer, request, {
+      severe: options.severe,
+      label: 'oracle-setAllPrices',
+      payload: { prices, ethPrice },
+      iface: oracle.interface,
+      onSettled: settleUpdate(target, provider),
+    });
+
+    const gasCostWei = await recordGasSpend(target.id, sent.receipt);
 
-    const receipt = await tx.wait();
     logger.info({
-      txHash: tx.hash,
-      block: receipt.blockNumber,
-      gasUsed: receipt.gasUsed.toString(),
+      target: target.id,
+      txHash: sent.hash,
+      block: sent.receipt.blockNumber,
+      gasUsed: sent.receipt.gasUsed.toString(),
+      costEth: ethers.formatEther(gasCostWei),
+      replacements: sent.replacements,
     }, '✅ Oracle prices updated on-chain');
 
+    const verification = await verifyUpdate(target, provider, sent.hash, sentE6);
+
     return {
       success: true,
-      txHash: tx.hash,
+      txHash: sent.hash,
       prices,
       ethPrice,
+      verification,
+      gasCostWei: gasCostWei.toString(),
+      blockNumber: sent.receipt.blockNumber,
+      gasUsed: sent.receipt.gasUsed.toString(),
+      effectiveGasPrice: sent.receipt.gasPrice.toString(),
     };
   } catch (error: any) {
+    const errorCategory = error instanceof TxManagerError ? error.category : 'send_failed';
+
+    if (errorCategory === 'fee_ceiling') {
+      logger.warn({ target: target.id, error: error.message }, 'Oracle update skipped — gas above ceiling');
+      return { success: false, txHash: '', prices, ethPrice, error: error.message, errorCategory };
+    }
+
+    // Mined but reverted: still paid for, so it carries the receipt fields too
+    const receipt = error instanceof TxManagerError ? error.receipt : undefined;
+    const mined = receipt ? {
+      gasCostWei: (await recordGasSpend(target.id, receipt)).toString(),
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      effectiveGasPrice: receipt.gasPrice.toString(),
+    } : {};
+
     logger.error({
+      target: target.id,
       error: error.message,
+      category: errorCategory,
       code: error.code,
       reason: error.reason,
       data: error.data,
+      txHash: receipt?.hash,
     }, '❌ Oracle update failed');
     return {
       success: false,
-      txHash: '',
+      txHash: receipt?.hash ?? '',
       prices,
       ethPrice,
       error: error.message,
+      errorCategory,
+      ...mined,
     };
   }
 }
+
+/**
+ * Accounting for a pending update found settled (at startup or before a
+ * send): gas spend, ledger entry, and last update if it confirmed
+ */
+function settleUpdate(target: OracleTarget, provider: ethers.Provider): SettleCallback {
+  return async (record, receipt) => {
+    const owner = (record.target && getTarget(record.target)) || target;
+    if (receipt) {
+      const costWei = await recordGasSpend(owner.id, receipt);
+      if (record.payload) await recordReconciledUpdate(owner, receipt, record.payload, costWei);
+    }
+    if (!receipt || receipt.status !== 1 || !record.payload) return;
+
+    const block = await provider.getBlock(receipt.blockNumber);
+    const timestamp = new Date((block?.timestamp ?? Math.floor(Date.now() / 1000)) * 1000).toISOString();
+    const lastUpdate = await getLastUpdate(owner.id);
+    if (lastUpdate && lastUpdate.timestamp >= timestamp) return;
+
+    await setLastUpdate(owner.id, {
+      timestamp,
+      txHash: receipt.hash,
+      source: 'reconciled',
+      prices: record.payload.prices,
+      ethPrice: record.payload.ethPrice,
+    });
+  };
+}
+
+/**
+ * Startup reconciliation of transactions left pending by a previous run.
+ * A confirmed setAllPrices found here is recorded as the last update of the
+ * target that sent it (a shared signer's records are settled by whichever
+ * target reconciles first).
+ */
+export async function reconcilePendingUpdates(target: OracleTarget): Promise<void> {
+  if (!isSignerConfigured(target)) return;
+
+  const provider = getPoolProvider(target.rpcUrls);
+  const signer = await getSigner(target, provider);
+
+  const stillPending = await reconcilePending(target, signer, settleUpdate(target, provider));
+
+  if (stillPending.length > 0) {
+    logger.warn({ target: target.id, pending: stillPending.map(p => ({ nonce: p.nonce, target: p.target, hashes: p.hashes })) },
+      'Transactions still pending from previous run — next update will replace them');
+  }
+}
+
+/**
+ * Pending transactions this target sent, from its signer's shared store (for /status)
+ */
+export async function getPendingUpdates(target: OracleTarget): Promise<PendingTransaction[]> {
+  const address = CONFIG.shadowMode ? null : await getSignerAddress(target);
+  if (!address) return [];
+  const key = await signerKey(getPoolProvider(target.rpcUrls), address);
+  const records = await getPendingTransactions(key);
+  return records.filter(r => (r.target ?? target.id) === target.id);
+}
@@ -5,8 +5,22 @@
 
 import { CONFIG } from '../config';
 import { logger } from '../utils/logger';
-import { getLastFetch, getLastUpdate } from './redis-state';
-import type { MetalPrices, AnalysisResult, Anomaly } from '../types';
+import { getLastUpdate } from './redis-state';
+import { FALLBACK_SOURCES } from './price-fetcher';
+import { getVolatilityStats } from './volatility';
+import { getMarketSession } from './market-calendar';
+import { checkCrossMetal } from './cross-metal';
+import type {
+  MetalPrices,
+  AnalysisResult,
+  Anomaly,
+  LastFetchRecord,
+  LastOpenPricesRecord,
+  OracleTarget,
+  PriceAttribution,
+  SourceQuotes,
+  UpdateReason,
+} from '../types';
 
 const METAL_NAMES: Record<string, string> = {
   gold: 'Gold',
@@ -15,16 +29,30 @@ const METAL_NAMES: Record<string, string> = {
   palladium: 'Palladium',
 };
 
+export interface AnalyzeOptions {
+  target: OracleTarget;  // thresholds and last update come from the target
+  attribution?: PriceAttribution;
+  sourceQuotes?: SourceQuotes;  // per-provider quotes, for cross-source divergence
+  previousFetch?: LastFetchRecord | null;  // the tick before this one, for spike/crash detection
+  lastOpenPrices?: LastOpenPricesRecord | null;  // last fetch while open, for closed-market movement
+  force?: boolean;  // admin force-update: always update, reason 'forced'
+}
+
 /**
  * Analyze current prices vs on-chain + detect anomalies
  */
 export async function analyzePrices(
   currentPrices: MetalPrices,
   onChainPrices: MetalPrices,
+  options: AnalyzeOptions,
 ): Promise<AnalysisResult> {
+  const { target, attribution, sourceQuotes, previousFetch, force = false } = options;
+  const thresholds = target.metalThresholds;
   const anomalies: Anomaly[] = [];
   const deviations: Record<string, number> = {};
   let shouldUpdate = false;
+  let isInitial = false;
+  const session = getMarketSession();
 
   const metals = ['gold', 'silver', 'platinum', 'palladium'] as const;
 
@@ -35,36 +63,38 @@ export async function analyzePrices(
 
     if (onChain <= 0) {
       deviations[metal] = 100;
-      shouldUpdate = true;
+      isInitial = true;
       continue;
     }
 
     const deviation = Math.abs((current - onChain) / onChain) * 100;
     deviations[metal] = Math.round(deviation * 100) / 100;
 
-    if (deviation > CONFIG.deviationThresholdPct) {
+    const threshold = thresholds[metal].deviationPct;
+    if (deviation > threshold) {
       shouldUpdate = true;
       logger.info({
+        target: target.id,
         metal,
         current: `$${current.toFixed(2)}`,
         onChain: `$${onChain.toFixed(2)}`,
         deviation: `${deviation.toFixed(2)}%`,
+        threshold: `${threshold}%`,
       }, `${METAL_NAMES[metal]} exceeds deviation threshold`);
     }
   }
 
-  // ── 2. Spike/crash detection ──
-  const lastFetch = await getLastFetch();
-  if (lastFetch?.prices) {
+  // ── 2. Spike/crash detection (vs the previous tick's fetch) ──
+  if (previousFetch?.prices) {
     for (const metal of metals) {
       const current = currentPrices[metal];
-      const previous = lastFetch.prices[metal];
+      const previous = previousFetch.prices[metal];
       if (previous <= 0) continue;
 
       const changePct = ((current - previous) / previous) * 100;
       const absChange = Math.abs(changePct);
 
-      if (absChange > CONFIG.anomalyThresholdPct) {
+      if (absChange > thresholds[metal].anomalyPct) {
         const isSpike = changePct > 0;
         anomalies.push({
           type: isSpike ? 'price_spike' : 'price_crash',
@@ -77,24 +107,147 @@ export async function analyzePrices(
     }
   }
 
-  // ── 3. Stale data detection ──
-  const lastUpdate = await getLastUpdate();
+  // ── 2b. Statistical detection (z-score vs rolling vol + window drift) ──
+  let volatility: AnalysisResult['volatility'];
+  if (CONFIG.anomalyMode === 'statistical') {
+    volatility = await getVolatilityStats(currentPrices);
+
+    for (const metal of metals) {
+      const stats = volatility[metal];
+      if (!stats) continue;
+
+      if (Math.abs(stats.zScore) > CONFIG.zScoreThreshold) {
+        anomalies.push({
+          type: 'volatility_outlier',
+          metal,
+          severity: 'critical',
+          message: `${METAL_NAMES[metal]} moved ${stats.zScore.toFixed(1)}σ this tick (rolling vol ${stats.ewmaVolPct.toFixed(3)}%/tick)`,
+          value: stats.zScore,
+        });
+      }
+
+      if (Math.abs(stats.driftZScore) > CONFIG.driftZScoreThreshold) {
+        anomalies.push({
+          type: 'price_drift',
+          metal,
+          severity: 'warning',
+          message: `${METAL_NAMES[metal]} drifted ${stats.driftPct.toFixed(2)}% over ${stats.samples + 1} snapshots (${stats.driftZScore.toFixed(1)}σ)`,
+          value: stats.driftPct,
+        });
+      }
+    }
+  }
+
+  // ── 2c. Cross-metal consistency (isolated moves, ratio breaks) ──
+  let ratios: AnalysisResult['ratios'];
+  if (CONFIG.crossMetalEnabled) {
+    const crossMetal = await checkCrossMetal(currentPrices);
+    anomalies.push(...crossMetal.anomalies);
+    ratios = crossMetal.ratios;
+  }
+
+  // ── 2d. Cross-source divergence (needs 2+ sources quoting the metal) ──
+  if (sourceQuotes) {
+    for (const metal of metals) {
+      const quotes = Object.entries(sourceQuotes)
+        .filter(([, q]) => (q[metal] ?? 0) > 0)
+        .map(([source, q]) => ({ source, price: q[metal]! }));
+      if (quotes.length < 2) continue;
+
+      const reference = currentPrices[metal];
+      const diffs = quotes.map(q => ({ ...q, diffPct: Math.abs((q.price - reference) / reference) * 100 }));
+      const worst = diffs.reduce((a, b) => (b.diffPct > a.diffPct ? b : a));
+      const tolerance = thresholds[metal].divergencePct;
+
+      if (worst.diffPct > tolerance) {
+        anomalies.push({
+          type: 'source_divergence',
+          metal,
+          severity: 'warning',
+          message: `${METAL_NAMES[metal]} sources disagree: ${diffs.map(d => `${d.source} $${d.price.toFixed(2)}`).join(', ')} (max ${worst.diffPct.toFixed(2)}% from $${reference.toFixed(2)}, tolerance ${tolerance}%)`,
+          value: Math.round(worst.diffPct * 100) / 100,
+        });
+      }
+    }
+  }
+
+  // ── 2e. Movement while the market is closed (likely a bad feed) ──
+  // Measured from the last price fetched while open, not from on-chain: the
+  // gap to on-chain is whatever the deviation threshold left at the close
+  const lastOpen = options.lastOpenPrices;
+  if (!session.open && lastOpen) {
+    for (const metal of metals) {
+      const atClose = lastOpen.prices[metal];
+      if (!atClose || atClose <= 0) continue;
+
+      const movePct = ((currentPrices[metal] - atClose) / atClose) * 100;
+      if (Math.abs(movePct) > CONFIG.closedMarketMovePct) {
+        anomalies.push({
+          type: 'closed_market_move',
+          metal,
+          severity: 'critical',
+          message: `${METAL_NAMES[metal]} moved ${movePct.toFixed(2)}% since the last open-market price ($${atClose.toFixed(2)}, ${lastOpen.timestamp}) while market is closed (${session.state})`,
+          value: Math.round(movePct * 100) / 100,
+        });
+      }
+    }
+  }
+
+  // ── 3. Stale data detection + heartbeat (per metal; setAllPrices writes all at once) ──
+  // Both are frozen while the market is closed: flat prices are expected then
+  let heartbeatDue = false;
+  // No recorded update (fresh namespace, Redis flushed) is not initial: only
+  // zero on-chain values are (step 1). There is just nothing to age here yet.
+  const lastUpdate = await getLastUpdate(target.id);
   if (lastUpdate?.timestamp) {
     const timeSinceUpdate = Date.now() - new Date(lastUpdate.timestamp).getTime();
-    if (timeSinceUpdate > CONFIG.staleThresholdMs) {
-      const minutesSince = Math.round(timeSinceUpdate / 60000);
+    const minutesSince = Math.round(timeSinceUpdate / 60000);
+
+    for (const metal of metals) {
+      if (!session.open) break;
+      const { heartbeatMs, staleMs } = thresholds[metal];
+      if (heartbeatMs > 0 && timeSinceUpdate > heartbeatMs) heartbeatDue = true;
+      if (timeSinceUpdate > staleMs) {
+        anomalies.push({
+          type: 'stale_data',
+          metal,
+          target: target.id,
+          severity: 'warning',
+          message: `${METAL_NAMES[metal]} on ${target.name} oracle has not been updated for ${minutesSince} minutes`,
+          value: minutesSince,
+        });
+      }
+    }
+  }
+
+  // ── 4. Fallback-filled metals ──
+  if (attribution) {
+    for (const metal of metals) {
+      const { source, quotedAt } = attribution[metal];
+      if (!FALLBACK_SOURCES.includes(source)) continue;
+
       anomalies.push({
-        type: 'stale_data',
-        severity: 'warning',
-        message: `Oracle has not been updated for ${minutesSince} minutes`,
-        value: minutesSince,
+        type: 'fallback_price',
+        metal,
+        severity: source === 'hardcoded' ? 'critical' : 'warning',
+        message: `${METAL_NAMES[metal]} has no live quote — using ${source} value $${currentPrices[metal].toFixed(2)}/oz${quotedAt ? ` (quoted ${quotedAt})` : ''}`,
+        value: currentPrices[metal],
       });
     }
   }
 
+  // ── 5. Decide update reason ──
+  let updateReason: UpdateReason | null = null;
+  if (force) updateReason = 'forced';
+  else if (isInitial) updateReason = 'initial';
+  else if (shouldUpdate) updateReason = 'deviation';
+  else if (heartbeatDue) updateReason = 'heartbeat';
+
+  shouldUpdate = updateReason !== null;
+
   if (shouldUpdate) {
-    logger.info({ deviations }, 'Oracle update needed');
+    logger.info({ target: target.id, deviations, reason: updateReason }, 'Oracle update needed');
   }
 
-  return { anomalies, deviations, shouldUpdate };
+  return { anomalies, deviations, shouldUpdate, updateReason, volatility, ratios };
 }
@@ -1,161 +1,338 @@
 /**
  * Multi-Source Price Fetcher
- * Fallback chain: GoldAPI → metals.live → Redis stale → Hardcoded
+ * Fallback chain: registered providers (in CONFIG.priceProviders order) → Redis stale → Hardcoded
+ * Median mode: all live providers in parallel → per-metal median with quorum
+ *
+ * Assembly is per metal: each metal takes the first provider that quoted it,
+ * and only the metals still missing drop to the stale/hardcoded tiers.
+ * Every metal carries its own source + quote time in FetchResult.attribution.
+ * Provider values failing plausibility / quote-age checks never reach assembly.
+ * With SOURCE_COMPARISON on, providers not needed for assembly are sampled too
+ * and every source's quote is returned in FetchResult.sourceQuotes.
  *
  * All prices returned as $/oz (troy ounce) — matching oracle daemon format
  */
 
 import { CONFIG } from '../config';
 import { logger } from '../utils/logger';
-import { getStalePrices, updateSharedPriceCache } from './redis-state';
-import type { MetalPrices, FetchResult } from '../types';
+import { getLastFetch, getStalePrices, updateSharedPriceCache } from './redis-state';
+import { getActiveProviders } from './price-providers';
+import { canAttempt, recordSuccess, recordFailure } from './circuit-breaker';
+import { validateQuote, formatRejection } from './price-validator';
+import type {
+  Metal,
+  MetalPrices,
+  FetchResult,
+  PriceAttribution,
+  PriceProvider,
+  PriceRejection,
+  ProviderQuote,
+  SourceContribution,
+} from '../types';
+
+const METALS: readonly Metal[] = ['gold', 'silver', 'platinum', 'palladium'];
+
+/** Tiers that mean "no live quote" — any metal landing here is an anomaly */
+export const FALLBACK_SOURCES = ['redis-stale', 'hardcoded'];
+
+interface FetchContext {
+  errors: string[];
+  rejections: PriceRejection[];
+  lastAccepted: Partial<MetalPrices> | null;  // previous tick's live prices, for max-jump checks
+}
+
+/**
+ * Reference for max-jump checks: the previous fetch, minus any metal that was
+ * itself a fallback value, and ignored entirely once older than staleThresholdMs.
+ * Otherwise a fallback or a long outage would make real quotes look like jumps.
+ */
+async function getLastAccepted(): Promise<Partial<MetalPrices> | null> {
+  const lastFetch = await getLastFetch();
+  if (!lastFetch?.prices) return null;
+  if (Date.now() - new Date(lastFetch.timestamp).getTime() > CONFIG.staleThresholdMs) return null;
+
+  const accepted: Partial<MetalPrices> = {};
+  for (const metal of METALS) {
+    const source = lastFetch.attribution?.[metal]?.source ?? lastFetch.source;
+    if (!FALLBACK_SOURCES.includes(source)) accepted[metal] = lastFetch.prices[metal];
+  }
+  return accepted;
+}
 
 // ════════════════════════════════════════
-// Source 1: GoldAPI (primary) — returns $/oz
+// Breaker-guarded, validated provider call
 // ════════════════════════════════════════
 
-async function fetchFromGoldApi(): Promise<{ prices: MetalPrices; ethPrice: number }> {
-  if (!CONFIG.goldApiKey) {
-    throw new Error('GOLDAPI_KEY not set');
+async function fetchFromProvider(provider: PriceProvider, ctx: FetchContext): Promise<ProviderQuote> {
+  if (!(await canAttempt(provider.id))) {
+    throw new Error('circuit open, skipped');
+  }
+
+  let quote: ProviderQuote;
+  try {
+    quote = await provider.fetch();
+    await recordSuccess(provider.id);
+  } catch (error: any) {
+    await recordFailure(provider.id, error.message);
+    throw error;
   }
 
-  const symbols = ['XAU', 'XAG', 'XPT', 'XPD'];
-  const prices: Record<string, number> = {};
+  const validated = validateQuote(provider.id, quote, ctx.lastAccepted);
+  ctx.rejections.push(...validated.rejections);
+  ctx.errors.push(...validated.rejections.map(formatRejection));
+  return validated.quote;
+}
+
+// ════════════════════════════════════════
+// Median / Quorum Aggregation
+// ════════════════════════════════════════
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function pctFrom(value: number, reference: number): number {
+  return Math.round(Math.abs((value - reference) / reference) * 10000) / 100;
+}
+
+/**
+ * Query every live source at once and build a per-metal consensus.
+ * Values beyond outlierTolerancePct of the raw median are dropped; a metal
+ * needs at least minQuorum agreeing sources, otherwise it is left unfilled.
+ */
+async function fetchMedian(
+  providers: PriceProvider[],
+  ctx: FetchContext,
+): Promise<{ prices: Partial<MetalPrices>; attribution: Partial<PriceAttribution>; contributions: SourceContribution[] }> {
+  const { errors } = ctx;
+  const settled = await Promise.allSettled(providers.map(p => fetchFromProvider(p, ctx)));
+  const receivedAt = new Date().toISOString();
 
-  for (const symbol of symbols) {
-    if (symbol !== 'XAU') {
-      await new Promise(r => setTimeout(r, CONFIG.goldApiRateDelayMs));
+  const contributions: SourceContribution[] = providers.map((p, i) => {
+    const result = settled[i];
+    if (result.status === 'fulfilled') {
+      return { source: p.id, prices: result.value.prices, deviations: {}, outliers: [] };
     }
+    const message = result.reason?.message || String(result.reason);
+    errors.push(`${p.name}: ${message}`);
+    return { source: p.id, prices: null, deviations: {}, outliers: [], error: message };
+  });
 
-    const res = await fetch(`${CONFIG.goldApiBaseUrl}/${symbol}/USD`, {
-      headers: {
-        'x-access-token': CONFIG.goldApiKey,
-        'Content-Type': 'application/json',
-      },
-    });
+  const quoteTime = (index: number, metal: Metal): string => {
+    const result = settled[index];
+    return (result.status === 'fulfilled' && result.value.quotedAt?.[metal]) || receivedAt;
+  };
 
-    if (res.status === 429) throw new Error('GoldAPI rate limited');
-    if (!res.ok) throw new Error(`GoldAPI ${symbol}: HTTP ${res.status}`);
+  const prices: Partial<MetalPrices> = {};
+  const attribution: Partial<PriceAttribution> = {};
 
-    const data = await res.json() as { price?: number };
-    if (!data.price || data.price <= 0) {
-      throw new Error(`GoldAPI ${symbol}: invalid price ${data.price}`);
+  for (const metal of METALS) {
+    const candidates = contributions.filter(c => (c.prices?.[metal] ?? 0) > 0);
+    if (candidates.length === 0) {
+      errors.push(`median: no source returned ${metal}`);
+      continue;
     }
 
-    const metalKey = CONFIG.goldApiSymbols[symbol];
-    prices[metalKey] = data.price;
-  }
+    const rawMedian = median(candidates.map(c => c.prices![metal]!));
+    const agreeing = candidates.filter(c => pctFrom(c.prices![metal]!, rawMedian) <= CONFIG.outlierTolerancePct);
+    for (const c of candidates) {
+      if (!agreeing.includes(c)) c.outliers.push(metal);
+    }
 
-  // Fetch ETH price from CoinGecko
-  let ethPrice = CONFIG.ethFallbackPrice;
-  try {
-    const ethRes = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd');
-    if (ethRes.ok) {
-      const ethData = await ethRes.json() as { ethereum?: { usd?: number } };
-      ethPrice = ethData.ethereum?.usd || CONFIG.ethFallbackPrice;
+    if (agreeing.length < CONFIG.minQuorum) {
+      errors.push(`median: ${metal} quorum not met (${agreeing.length}/${CONFIG.minQuorum} agreeing)`);
+      continue;
+    }
+
+    prices[metal] = median(agreeing.map(c => c.prices![metal]!));
+    for (const c of candidates) {
+      c.deviations[metal] = pctFrom(c.prices![metal]!, prices[metal]!);
     }
-  } catch {
-    logger.warn('CoinGecko ETH fetch failed, using fallback');
+
+    // Consensus is only as fresh as its oldest input
+    const times = agreeing.map(c => quoteTime(contributions.indexOf(c), metal)).sort();
+    attribution[metal] = { source: 'median', quotedAt: times[0] };
   }
 
-  return {
-    prices: prices as unknown as MetalPrices,
-    ethPrice,
-  };
+  return { prices, attribution, contributions };
 }
 
 // ════════════════════════════════════════
-// Source 2: api.metals.live (free, no key)
+// First-success assembly (per metal)
 // ════════════════════════════════════════
 
-async function fetchFromMetalsLive(): Promise<{ prices: MetalPrices; ethPrice: number }> {
-  const res = await fetch(CONFIG.metalsLiveUrl, {
-    headers: { 'Accept': 'application/json' },
-  });
+async function fetchSequential(
+  providers: PriceProvider[],
+  ctx: FetchContext,
+): Promise<{
+  prices: Partial<MetalPrices>;
+  attribution: Partial<PriceAttribution>;
+  sourceQuotes: Record<string, Partial<MetalPrices>>;
+  attempted: Set<string>;
+}> {
+  const prices: Partial<MetalPrices> = {};
+  const attribution: Partial<PriceAttribution> = {};
+  const sourceQuotes: Record<string, Partial<MetalPrices>> = {};
+  const attempted = new Set<string>();
 
-  if (!res.ok) throw new Error(`metals.live: HTTP ${res.status}`);
+  for (const provider of providers) {
+    const missing = METALS.filter(m => prices[m] === undefined);
+    if (missing.length === 0) break;
 
-  const data = await res.json() as any[];
-  const prices: Record<string, number> = {};
+    attempted.add(provider.id);
+    try {
+      const quote = await fetchFromProvider(provider, ctx);
+      sourceQuotes[provider.id] = quote.prices;
+      const receivedAt = new Date().toISOString();
+      const filled: Metal[] = [];
 
-  if (Array.isArray(data)) {
-    for (const item of data) {
-      if (item.gold) prices.gold = item.gold;
-      else if (item.silver) prices.silver = item.silver;
-      else if (item.platinum) prices.platinum = item.platinum;
-      else if (item.palladium) prices.palladium = item.palladium;
-      if (item.metal && item.price) {
-        prices[item.metal.toLowerCase()] = item.price;
+      for (const metal of missing) {
+        const value = quote.prices[metal];
+        if (value && value > 0) {
+          prices[metal] = value;
+          attribution[metal] = { source: provider.id, quotedAt: quote.quotedAt?.[metal] || receivedAt };
+          filled.push(metal);
+        }
       }
+
+      logger.info({ source: provider.id, filled, gold: quote.prices.gold?.toFixed(2) },
+        `Prices fetched from ${provider.name} ($/oz)`);
+    } catch (error: any) {
+      ctx.errors.push(`${provider.name}: ${error.message}`);
+      logger.warn({ source: provider.id, error: error.message }, `${provider.name} failed, trying next source`);
     }
   }
 
-  if (!prices.gold) throw new Error('metals.live: no gold price found');
-
-  return {
-    prices: {
-      gold: prices.gold || CONFIG.fallbackPrices.gold,
-      silver: prices.silver || CONFIG.fallbackPrices.silver,
-      platinum: prices.platinum || CONFIG.fallbackPrices.platinum,
-      palladium: prices.palladium || CONFIG.fallbackPrices.palladium,
-    },
-    ethPrice: CONFIG.ethFallbackPrice,
-  };
+  return { prices, attribution, sourceQuotes, attempted };
 }
 
 // ════════════════════════════════════════
-// Main Fetch Function (with fallback chain)
+// Comparison pass (secondary sources, not used for assembly)
 // ════════════════════════════════════════
 
-export async function fetchPrices(): Promise<FetchResult> {
-  const startTime = Date.now();
-  const errors: string[] = [];
+async function sampleSecondary(
+  providers: PriceProvider[],
+  ctx: FetchContext,
+): Promise<Record<string, Partial<MetalPrices>>> {
+  const sampled: Record<string, Partial<MetalPrices>> = {};
+  const settled = await Promise.allSettled(providers.map(p => fetchFromProvider(p, ctx)));
 
-  // Source 1: GoldAPI
-  try {
-    const result = await fetchFromGoldApi();
-    const duration = Date.now() - startTime;
-    logger.info({ source: 'goldapi', duration, gold: result.prices.gold.toFixed(2) },
-      'Prices fetched from GoldAPI ($/oz)');
-    await updateSharedPriceCache(result.prices);
-    return { prices: result.prices, ethPrice: result.ethPrice, source: 'goldapi', fetchDurationMs: duration, errors };
-  } catch (error: any) {
-    errors.push(`GoldAPI: ${error.message}`);
-    logger.warn({ error: error.message }, 'GoldAPI failed, trying metals.live');
+  settled.forEach((result, i) => {
+    const provider = providers[i];
+    if (result.status === 'fulfilled') {
+      sampled[provider.id] = result.value.prices;
+    } else {
+      const message = result.reason?.message || String(result.reason);
+      ctx.errors.push(`${provider.name} (comparison): ${message}`);
+    }
+  });
+
+  if (providers.length > 0) {
+    logger.debug({ sampled: Object.keys(sampled) }, 'Secondary sources sampled for comparison');
   }
+  return sampled;
+}
 
-  // Source 2: metals.live
+// ════════════════════════════════════════
+// Last resort per metal: Redis stale → hardcoded
+// ════════════════════════════════════════
+
+async function fillFromFallback(
+  missing: Metal[],
+  prices: Partial<MetalPrices>,
+  attribution: Partial<PriceAttribution>,
+  errors: string[],
+): Promise<void> {
+  let stale: Awaited<ReturnType<typeof getStalePrices>> = null;
   try {
-    const result = await fetchFromMetalsLive();
-    const duration = Date.now() - startTime;
-    logger.info({ source: 'metals-live', duration }, 'Prices fetched from metals.live ($/oz)');
-    await updateSharedPriceCache(result.prices);
-    return { prices: result.prices, ethPrice: result.ethPrice, source: 'metals-live', fetchDurationMs: duration, errors };
+    stale = await getStalePrices();
   } catch (error: any) {
-    errors.push(`metals.live: ${error.message}`);
-    logger.warn({ error: error.message }, 'metals.live failed, trying stale cache');
+    errors.push(`Redis stale: ${error.message}`);
   }
 
-  // Source 3: Redis stale cache
-  try {
-    const stale = await getStalePrices();
-    if (stale && stale.gold > 0) {
-      const duration = Date.now() - startTime;
-      logger.warn({ source: 'redis-stale', duration }, 'Using stale Redis prices');
-      return { prices: stale, ethPrice: CONFIG.ethFallbackPrice, source: 'redis-stale', fetchDurationMs: duration, errors };
+  for (const metal of missing) {
+    const staleValue = stale?.prices[metal];
+    if (staleValue && staleValue > 0) {
+      prices[metal] = staleValue;
+      attribution[metal] = {
+        source: 'redis-stale',
+        quotedAt: stale!.timestamp ? new Date(stale!.timestamp).toISOString() : null,
+      };
+    } else {
+      prices[metal] = CONFIG.fallbackPrices[metal];
+      attribution[metal] = { source: 'hardcoded', quotedAt: null };
     }
-  } catch (error: any) {
-    errors.push(`Redis stale: ${error.message}`);
   }
 
-  // Source 4: Hardcoded fallback
+  logger.warn({
+    missing,
+    sources: Object.fromEntries(missing.map(m => [m, attribution[m]!.source])),
+    errors,
+  }, 'Metals filled from fallback tiers');
+}
+
+// ════════════════════════════════════════
+// Main Fetch Function
+// ════════════════════════════════════════
+
+export async function fetchPrices(): Promise<FetchResult> {
+  const startTime = Date.now();
+  const errors: string[] = [];
+  const rejections: PriceRejection[] = [];
+  const providers = getActiveProviders();
+  const ctx: FetchContext = { errors, rejections, lastAccepted: await getLastAccepted() };
+
+  let contributions: SourceContribution[] | undefined;
+  let assembled: { prices: Partial<MetalPrices>; attribution: Partial<PriceAttribution> };
+  let sourceQuotes: Record<string, Partial<MetalPrices>> = {};
+
+  if (CONFIG.aggregationMode === 'median') {
+    const result = await fetchMedian(providers, ctx);
+    contributions = result.contributions;
+    assembled = result;
+    for (const c of contributions) {
+      if (c.prices) sourceQuotes[c.source] = c.prices;
+    }
+  } else {
+    const result = await fetchSequential(providers, ctx);
+    assembled = result;
+    sourceQuotes = result.sourceQuotes;
+
+    if (CONFIG.sourceComparisonEnabled) {
+      const secondary = providers.filter(p => !result.attempted.has(p.id));
+      Object.assign(sourceQuotes, await sampleSecondary(secondary, ctx));
+    }
+  }
+
+  const { prices, attribution } = assembled;
+  const missing = METALS.filter(m => prices[m] === undefined);
+  if (missing.length > 0) {
+    await fillFromFallback(missing, prices, attribution, errors);
+  }
+
+  const complete = prices as MetalPrices;
+  const completeAttribution = attribution as PriceAttribution;
+  const sources = new Set(METALS.map(m => completeAttribution[m].source));
+  const source = sources.size === 1 ? [...sources][0] : 'mixed';
   const duration = Date.now() - startTime;
-  logger.error({ errors }, 'All sources failed, using hardcoded fallback');
+
+  // Only fully-live results refresh the shared cache the wallet app reads
+  if (missing.length === 0) {
+    await updateSharedPriceCache(complete);
+  }
+
+  logger.info({ source, duration, attribution: completeAttribution }, 'Prices assembled ($/oz)');
+
   return {
-    prices: { ...CONFIG.fallbackPrices },
-    ethPrice: CONFIG.ethFallbackPrice,
-    source: 'hardcoded',
+    prices: complete,
+    source,
+    attribution: completeAttribution,
     fetchDurationMs: duration,
     errors,
+    rejections,
+    contributions,
+    sourceQuotes,
   };
 }
@@ -0,0 +1,56 @@
+/**
+ * GoldAPI provider (primary) — returns $/oz
+ * One request per symbol, spaced by goldApiRateDelayMs to stay under quota
+ */
+
+import { CONFIG } from '../../config';
+import type { Metal, MetalPrices, PriceProvider, ProviderQuote } from '../../types';
+
+async function fetchGoldApi(): Promise<ProviderQuote> {
+  if (!CONFIG.goldApiKey) {
+    throw new Error('GOLDAPI_KEY not set');
+  }
+
+  const symbols = ['XAU', 'XAG', 'XPT', 'XPD'];
+  const prices: Record<string, number> = {};
+  const quotedAt: Partial<Record<Metal, string>> = {};
+
+  for (const symbol of symbols) {
+    if (symbol !== 'XAU') {
+      await new Promise(r => setTimeout(r, CONFIG.goldApiRateDelayMs));
+    }
+
+    const res = await fetch(`${CONFIG.goldApiBaseUrl}/${symbol}/USD`, {
+      headers: {
+        'x-access-token': CONFIG.goldApiKey,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (res.status === 429) throw new Error('GoldAPI rate limited');
+    if (!res.ok) throw new Error(`GoldAPI ${symbol}: HTTP ${res.status}`);
+
+    const data = await res.json() as { price?: number; timestamp?: number };
+    if (!data.price || data.price <= 0) {
+      throw new Error(`GoldAPI ${symbol}: invalid price ${data.price}`);
+    }
+
+    const metalKey = CONFIG.goldApiSymbols[symbol] as Metal;
+    prices[metalKey] = data.price;
+    if (data.timestamp) {
+      // GoldAPI reports unix seconds
+      quotedAt[metalKey] = new Date(data.timestamp * 1000).toISOString();
+    }
+  }
+
+  return {
+    prices: prices as unknown as MetalPrices,
+    quotedAt,
+  };
+}
+
+export const goldApiProvider: PriceProvider = {
+  id: 'goldapi',
+  name: 'GoldAPI',
+  fetch: fetchGoldApi,
+};
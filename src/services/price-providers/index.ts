@@ -0,0 +1,55 @@
+/**
+ * Price Provider Registry
+ * Every live price source registers here under its id. Which providers run,
+ * and in what order, is controlled by CONFIG.priceProviders (PRICE_PROVIDERS).
+ *
+ * To add a source: create a module exporting a PriceProvider, then add it
+ * to BUILT_IN_PROVIDERS below (or call registerProvider at startup).
+ */
+
+import { CONFIG } from '../../config';
+import { logger } from '../../utils/logger';
+import { goldApiProvider } from './goldapi';
+import { metalsLiveProvider } from './metals-live';
+import type { PriceProvider } from '../../types';
+
+const BUILT_IN_PROVIDERS: PriceProvider[] = [
+  goldApiProvider,
+  metalsLiveProvider,
+];
+
+const registry = new Map<string, PriceProvider>(
+  BUILT_IN_PROVIDERS.map(p => [p.id, p]),
+);
+
+export function registerProvider(provider: PriceProvider): void {
+  if (registry.has(provider.id)) {
+    logger.warn({ provider: provider.id }, 'Price provider already registered, replacing');
+  }
+  registry.set(provider.id, provider);
+}
+
+export function getProvider(id: string): PriceProvider | undefined {
+  return registry.get(id);
+}
+
+export function listProviders(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Enabled providers in configured priority order.
+ * Unknown ids are logged and skipped rather than failing the tick.
+ */
+export function getActiveProviders(): PriceProvider[] {
+  const active: PriceProvider[] = [];
+  for (const id of CONFIG.priceProviders) {
+    const provider = registry.get(id);
+    if (provider) {
+      active.push(provider);
+    } else {
+      logger.warn({ provider: id, known: listProviders() }, 'Unknown price provider in config, skipping');
+    }
+  }
+  return active;
+}
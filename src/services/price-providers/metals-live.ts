@@ -0,0 +1,47 @@
+/**
+ * api.metals.live provider (free, no key) — returns $/oz
+ */
+
+import { CONFIG } from '../../config';
+import type { PriceProvider, ProviderQuote } from '../../types';
+
+async function fetchMetalsLive(): Promise<ProviderQuote> {
+  const res = await fetch(CONFIG.metalsLiveUrl, {
+    headers: { 'Accept': 'application/json' },
+  });
+
+  if (!res.ok) throw new Error(`metals.live: HTTP ${res.status}`);
+
+  const data = await res.json() as any[];
+  const prices: Record<string, number> = {};
+
+  if (Array.isArray(data)) {
+    for (const item of data) {
+      if (item.gold) prices.gold = item.gold;
+      else if (item.silver) prices.silver = item.silver;
+      else if (item.platinum) prices.platinum = item.platinum;
+      else if (item.palladium) prices.palladium = item.palladium;
+      if (item.metal && item.price) {
+        prices[item.metal.toLowerCase()] = item.price;
+      }
+    }
+  }
+
+  if (Object.keys(prices).length === 0) throw new Error('metals.live: no prices found');
+
+  // Partial quotes are fine — missing metals are filled by the fetcher, not here
+  return {
+    prices: {
+      gold: prices.gold,
+      silver: prices.silver,
+      platinum: prices.platinum,
+      palladium: prices.palladium,
+    },
+  };
+}
+
+export const metalsLiveProvider: PriceProvider = {
+  id: 'metals-live',
+  name: 'metals.live',
+  fetch: fetchMetalsLive,
+};
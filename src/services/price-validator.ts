@@ -0,0 +1,91 @@
+/**
+ * Price Validator — plausibility bands + quote-age checks per metal
+ * Runs on every provider quote before it can be used for assembly or median.
+ * Rejected values are removed from the quote and reported with a reason.
+ */
+
+import { CONFIG } from '../config';
+import { logger } from '../utils/logger';
+import type { Metal, MetalPrices, PriceRejection, PriceSource, ProviderQuote } from '../types';
+
+const METALS: readonly Metal[] = ['gold', 'silver', 'platinum', 'palladium'];
+
+function checkValue(
+  metal: Metal,
+  value: number,
+  quotedAt: string | undefined,
+  lastAccepted: Partial<MetalPrices> | null,
+): Omit<PriceRejection, 'source' | 'metal' | 'value' | 'quotedAt'> | null {
+  const band = CONFIG.plausibility[metal];
+
+  if (!Number.isFinite(value) || value <= 0) {
+    return { reason: 'invalid', detail: `non-positive or non-numeric value ${value}` };
+  }
+  if (value < band.min) {
+    return { reason: 'below_min', detail: `$${value.toFixed(2)} below min $${band.min}` };
+  }
+  if (value > band.max) {
+    return { reason: 'above_max', detail: `$${value.toFixed(2)} above max $${band.max}` };
+  }
+
+  const previous = lastAccepted?.[metal];
+  if (previous && previous > 0) {
+    const jumpPct = Math.abs((value - previous) / previous) * 100;
+    if (jumpPct > band.maxJumpPct) {
+      return {
+        reason: 'max_jump',
+        detail: `${jumpPct.toFixed(1)}% from last accepted $${previous.toFixed(2)} (max ${band.maxJumpPct}%)`,
+      };
+    }
+  }
+
+  if (quotedAt) {
+    const ageMs = Date.now() - new Date(quotedAt).getTime();
+    if (ageMs > CONFIG.maxQuoteAgeMs) {
+      return {
+        reason: 'quote_too_old',
+        detail: `quoted ${Math.round(ageMs / 60000)} min ago (max ${Math.round(CONFIG.maxQuoteAgeMs / 60000)} min)`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Strip implausible or stale values from a provider quote
+ */
+export function validateQuote(
+  source: PriceSource,
+  quote: ProviderQuote,
+  lastAccepted: Partial<MetalPrices> | null,
+): { quote: ProviderQuote; rejections: PriceRejection[] } {
+  const prices: Partial<MetalPrices> = {};
+  const quotedAt: Partial<Record<Metal, string>> = {};
+  const rejections: PriceRejection[] = [];
+
+  for (const metal of METALS) {
+    const value = quote.prices[metal];
+    if (value === undefined) continue;
+
+    const time = quote.quotedAt?.[metal];
+    const rejection = checkValue(metal, value, time, lastAccepted);
+    if (rejection) {
+      rejections.push({ source, metal, value, ...rejection, ...(time ? { quotedAt: time } : {}) });
+      continue;
+    }
+
+    prices[metal] = value;
+    if (time) quotedAt[metal] = time;
+  }
+
+  if (rejections.length > 0) {
+    logger.warn({ source, rejections }, 'Rejected implausible quotes');
+  }
+
+  return { quote: { prices, quotedAt }, rejections };
+}
+
+export function formatRejection(r: PriceRejection): string {
+  return `${r.source} ${r.metal}: rejected (${r.reason}) ${r.detail}`;
+}
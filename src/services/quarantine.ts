@@ -0,0 +1,125 @@
+/**
+ * Quarantine — holds on-chain writes for a metal after a critical anomaly
+ * The held metal keeps its on-chain value in setAllPrices until the new level
+ * persists for quarantineConfirmTicks consecutive ticks, or an admin approves.
+ * State lives in Redis (per target) so holds survive restarts.
+ */
+
+import { CONFIG } from '../config';
+import { logger } from '../utils/logger';
+import { sendAlert } from './alert-service';
+import { getQuarantine, setQuarantine, clearQuarantine } from './redis-state';
+import type { Anomaly, Metal, MetalPrices } from '../types';
+
+const METALS: readonly Metal[] = ['gold', 'silver', 'platinum', 'palladium'];
+
+// Anomaly types that start a hold; warnings (drift, stale, fallback) never do
+const HOLD_TYPES: Anomaly['type'][] = ['price_spike', 'price_crash', 'volatility_outlier', 'closed_market_move', 'cross_metal_divergence'];
+
+function withinTolerance(value: number, reference: number): boolean {
+  if (reference <= 0) return false;
+  return Math.abs((value - reference) / reference) * 100 <= CONFIG.quarantineTolerancePct;
+}
+
+export interface QuarantineOutcome {
+  prices: MetalPrices;  // what may be written on-chain this tick
+  held: Metal[];
+  blocked: boolean;     // a held metal has no on-chain value to fall back to
+}
+
+/**
+ * Advance quarantine state for this tick and return the prices safe to write
+ */
+export async function applyQuarantine(
+  targetId: string,
+  fetched: MetalPrices,
+  onChain: MetalPrices,
+  anomalies: Anomaly[],
+): Promise<QuarantineOutcome> {
+  const prices = { ...fetched };
+  const held: Metal[] = [];
+
+  for (const metal of METALS) {
+    const current = fetched[metal];
+    const record = await getQuarantine(targetId, metal);
+
+    if (record) {
+      if (record.approvedAt) {
+        await clearQuarantine(targetId, metal);
+        logger.info({ target: targetId, metal, approvedAt: record.approvedAt }, 'Quarantine released by admin approval');
+        continue;
+      }
+
+      if (withinTolerance(current, onChain[metal])) {
+        await clearQuarantine(targetId, metal);
+        logger.info({ target: targetId, metal, current }, 'Quarantine cleared — price reverted to on-chain level');
+        continue;
+      }
+
+      if (withinTolerance(current, record.heldPrice)) {
+        const confirmations = record.confirmations + 1;
+        if (confirmations >= CONFIG.quarantineConfirmTicks) {
+          await clearQuarantine(targetId, metal);
+          logger.info({ target: targetId, metal, confirmations, price: current }, 'Quarantine released — level confirmed');
+          continue;
+        }
+        await setQuarantine(targetId, { ...record, confirmations });
+      } else {
+        // Moved again: restart confirmation at the new level
+        await setQuarantine(targetId, { ...record, heldPrice: current, confirmations: 1 });
+      }
+
+      held.push(metal);
+      continue;
+    }
+
+    const trigger = anomalies.find(a => a.metal === metal && a.severity === 'critical' && HOLD_TYPES.includes(a.type));
+    if (!trigger || CONFIG.quarantineConfirmTicks <= 1) continue;
+
+    await setQuarantine(targetId, {
+      metal,
+      anomalyType: trigger.type,
+      reason: trigger.message,
+      heldPrice: current,
+      onChainPrice: onChain[metal],
+      startedAt: new Date().toISOString(),
+      confirmations: 1,
+      approvedAt: null,
+    });
+    held.push(metal);
+
+    await sendAlert({
+      type: 'quarantine',
+      severity: 'critical',
+      title: 'Oracle: Update Held',
+      body: `[${targetId}] ${metal} on-chain write held after ${trigger.type}: ${trigger.message}. Needs ${CONFIG.quarantineConfirmTicks} confirming ticks or admin approval.`,
+      data: { target: targetId, metal, price: current, onChain: onChain[metal] },
+    });
+  }
+
+  let blocked = false;
+  for (const metal of held) {
+    if (onChain[metal] > 0) {
+      prices[metal] = onChain[metal];
+    } else {
+      blocked = true;
+    }
+  }
+
+  if (held.length > 0) {
+    logger.warn({ target: targetId, held, blocked }, 'Quarantine holding metals at on-chain value');
+  }
+
+  return { prices, held, blocked };
+}
+
+/**
+ * Admin approval: the held level is written on the next tick
+ */
+export async function approveQuarantine(targetId: string, metal: Metal): Promise<boolean> {
+  const record = await getQuarantine(targetId, metal);
+  if (!record) return false;
+  await setQuarantine(targetId, { ...record, approvedAt: new Date().toISOString() });
+  logger.info({ target: targetId, metal, heldPrice: record.heldPrice }, 'Quarantine approved via admin API');
+  return true;
+}
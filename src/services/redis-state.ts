@@ -1,19 +1,37 @@
 /**
  * Redis State Management
- * All watcher state under oracle:watcher:* prefix
+ * All watcher state under CONFIG.redisNamespace (oracle:watcher:* in production,
+ * oracle:shadow:* for a shadow watcher). Per-target state (kill switch, last
+ * update, errors, quarantine, pending txs, balance, decisions) lives under
+ * <namespace>:target:<id>:*, except the "default" target which keeps the
+ * original un-prefixed keys.
  * Also writes to shared metal:prices:* keys for wallet app
  */
 
 import { Redis } from '@upstash/redis';
 import { CONFIG } from '../config';
 import { logger } from '../utils/logger';
+import { DEFAULT_TARGET_ID } from './targets';
 import type {
   MetalPrices,
   WatcherStatus,
   LastUpdateRecord,
   LastFetchRecord,
+  LastOpenPricesRecord,
   PriceSnapshot,
   SpreadConfig,
+  CircuitBreakerRecord,
+  EthPriceRecord,
+  Metal,
+  QuarantineRecord,
+  PendingTransaction,
+  GasSpendRecord,
+  SignerBalanceRecord,
+  DecisionRecord,
+  OracleChangeRecord,
+  OracleEventCursor,
+  OwnTxRecord,
+  TransactionLedgerRecord,
 } from '../types';
 
 // ── Redis Client ──
@@ -23,16 +41,39 @@ const redis = new Redis({
 });
 
 // ── Key Constants ──
+const NS = CONFIG.redisNamespace;
+
+function targetNs(targetId: string, namespace: string = NS): string {
+  return targetId === DEFAULT_TARGET_ID ? namespace : `${namespace}:target:${targetId}`;
+}
+
 const KEYS = {
-  killSwitch: 'oracle:watcher:kill_switch',
-  overridePrices: 'oracle:watcher:override:prices',
-  overrideExpires: 'oracle:watcher:override:expires',
-  lastUpdate: 'oracle:watcher:last_update',
-  lastFetch: 'oracle:watcher:last_fetch',
-  status: 'oracle:watcher:status',
-  errorCount: 'oracle:watcher:error_count',
-  priceHistory: 'oracle:watcher:price_history',
-  alertCooldown: (type: string) => `oracle:watcher:alert:cooldown:${type}`,
+  killSwitch: (targetId: string) => `${targetNs(targetId)}:kill_switch`,
+  overridePrices: `${NS}:override:prices`,
+  overrideExpires: `${NS}:override:expires`,
+  lastUpdate: (targetId: string) => `${targetNs(targetId)}:last_update`,
+  lastFetch: `${NS}:last_fetch`,
+  lastOpenPrices: `${NS}:last_open_prices`,
+  lastEthPrice: `${NS}:eth:last`,
+  status: `${NS}:status`,
+  errorCount: (targetId: string) => `${targetNs(targetId)}:error_count`,
+  priceHistory: `${NS}:price_history`,
+  alertCooldown: (type: string, targetId?: string) => `${NS}:alert:cooldown:${type}${targetId ? `:${targetId}` : ''}`,
+  breaker: (source: string) => `${NS}:breaker:${source}`,
+  breakerProbe: (source: string) => `${NS}:breaker:${source}:probe`,
+  quarantine: (targetId: string, metal: string) => `${targetNs(targetId)}:quarantine:${metal}`,
+  pendingTxs: (signerKey: string) => `${NS}:signer:${signerKey}:pending_txs`,
+  legacyPendingTxs: (targetId: string) => `${targetNs(targetId)}:pending_txs`,
+  gasSpend: (targetId: string) => `${targetNs(targetId)}:gas_spend`,
+  signerBalance: (targetId: string) => `${targetNs(targetId)}:signer_balance`,
+  decisions: (targetId: string, namespace: string) => `${targetNs(targetId, namespace)}:decisions`,
+  ownTxs: (targetId: string) => `${targetNs(targetId)}:own_txs`,
+  ownTx: (targetId: string, hash: string) => `${targetNs(targetId)}:own_tx:${hash}`,
+  eventCursor: (targetId: string) => `${targetNs(targetId)}:events:cursor`,
+  eventScanLock: (targetId: string) => `${targetNs(targetId)}:events:lock`,
+  oracleChanges: (targetId: string) => `${targetNs(targetId)}:events:changes`,
+  txLedger: (targetId: string) => `${targetNs(targetId)}:tx_ledger`,
+  txLedgerDaily: (targetId: string) => `${targetNs(targetId)}:tx_ledger:daily`,
 
   // Shared with wallet app
   sharedPriceCache: 'metal:prices:cache',
@@ -41,22 +82,22 @@ const KEYS = {
 } as const;
 
 // ════════════════════════════════════════
-// Kill Switch
+// Kill Switch (per target)
 // ════════════════════════════════════════
 
-export async function getKillSwitch(): Promise<boolean> {
+export async function getKillSwitch(targetId: string): Promise<boolean> {
   try {
-    const val = await redis.get(KEYS.killSwitch);
+    const val = await redis.get(KEYS.killSwitch(targetId));
     return val === 'true' || val === true;
   } catch (error) {
-    logger.error({ error }, 'Failed to get kill switch');
+    logger.error({ error, target: targetId }, 'Failed to get kill switch');
     return false;
   }
 }
 
-export async function setKillSwitch(active: boolean): Promise<void> {
-  await redis.set(KEYS.killSwitch, active ? 'true' : 'false');
-  logger.info({ active }, 'Kill switch updated');
+export async function setKillSwitch(targetId: string, active: boolean): Promise<void> {
+  await redis.set(KEYS.killSwitch(targetId), active ? 'true' : 'false');
+  logger.info({ active, target: targetId }, 'Kill switch updated');
 }
 
 // ════════════════════════════════════════
@@ -104,9 +145,9 @@ export async function clearOverridePrices(): Promise<void> {
 // Last Update / Last Fetch Records
 // ════════════════════════════════════════
 
-export async function getLastUpdate(): Promise<LastUpdateRecord | null> {
+export async function getLastUpdate(targetId: string): Promise<LastUpdateRecord | null> {
   try {
-    const raw = await redis.get(KEYS.lastUpdate);
+    const raw = await redis.get(KEYS.lastUpdate(targetId));
     if (!raw) return null;
     return typeof raw === 'string' ? JSON.parse(raw) : raw as LastUpdateRecord;
   } catch {
@@ -114,8 +155,8 @@ export async function getLastUpdate(): Promise<LastUpdateRecord | null> {
   }
 }
 
-export async function setLastUpdate(record: LastUpdateRecord): Promise<void> {
-  await redis.set(KEYS.lastUpdate, JSON.stringify(record));
+export async function setLastUpdate(targetId: string, record: LastUpdateRecord): Promise<void> {
+  await redis.set(KEYS.lastUpdate(targetId), JSON.stringify(record));
 }
 
 export async function getLastFetch(): Promise<LastFetchRecord | null> {
@@ -132,6 +173,42 @@ export async function setLastFetch(record: LastFetchRecord): Promise<void> {
   await redis.set(KEYS.lastFetch, JSON.stringify(record));
 }
 
+export async function getLastOpenPrices(): Promise<LastOpenPricesRecord | null> {
+  try {
+    const raw = await redis.get(KEYS.lastOpenPrices);
+    if (!raw) return null;
+    return typeof raw === 'string' ? JSON.parse(raw) : raw as LastOpenPricesRecord;
+  } catch {
+    return null;
+  }
+}
+
+export async function setLastOpenPrices(record: LastOpenPricesRecord): Promise<void> {
+  await redis.set(KEYS.lastOpenPrices, JSON.stringify(record));
+}
+
+// ════════════════════════════════════════
+// Last Accepted ETH Price
+// ════════════════════════════════════════
+
+export async function getLastEthPrice(): Promise<EthPriceRecord | null> {
+  try {
+    const raw = await redis.get(KEYS.lastEthPrice);
+    if (!raw) return null;
+    return typeof raw === 'string' ? JSON.parse(raw) : raw as EthPriceRecord;
+  } catch {
+    return null;
+  }
+}
+
+export async function setLastEthPrice(record: EthPriceRecord): Promise<void> {
+  try {
+    await redis.set(KEYS.lastEthPrice, JSON.stringify(record));
+  } catch (error) {
+    logger.error({ error }, 'Failed to set last ETH price');
+  }
+}
+
 // ════════════════════════════════════════
 // Watcher Status
 // ════════════════════════════════════════
@@ -153,20 +230,20 @@ export async function setStatus(status: WatcherStatus): Promise<void> {
 }
 
 // ════════════════════════════════════════
-// Error Tracking
+// Error Tracking (per target)
 // ════════════════════════════════════════
 
-export async function incrementErrorCount(): Promise<number> {
-  const count = await redis.incr(KEYS.errorCount);
+export async function incrementErrorCount(targetId: string): Promise<number> {
+  const count = await redis.incr(KEYS.errorCount(targetId));
   return count;
 }
 
-export async function resetErrorCount(): Promise<void> {
-  await redis.set(KEYS.errorCount, 0);
+export async function resetErrorCount(targetId: string): Promise<void> {
+  await redis.set(KEYS.errorCount(targetId), 0);
 }
 
-export async function getErrorCount(): Promise<number> {
-  const val = await redis.get(KEYS.errorCount);
+export async function getErrorCount(targetId: string): Promise<number> {
+  const val = await redis.get(KEYS.errorCount(targetId));
   return Number(val) || 0;
 }
 
@@ -200,25 +277,369 @@ export async function getPriceHistory(limit: number = 50): Promise<PriceSnapshot
 }
 
 // ════════════════════════════════════════
-// Alert Cooldown (5 min dedup)
+// Alert Cooldown (5 min dedup, per target for target alerts)
 // ════════════════════════════════════════
 
-export async function isAlertOnCooldown(type: string): Promise<boolean> {
-  const key = KEYS.alertCooldown(type);
+export async function isAlertOnCooldown(type: string, targetId?: string): Promise<boolean> {
+  const key = KEYS.alertCooldown(type, targetId);
   const val = await redis.get(key);
   return val !== null;
 }
 
-export async function setAlertCooldown(type: string, ttlSeconds?: number): Promise<void> {
-  const key = KEYS.alertCooldown(type);
+export async function setAlertCooldown(type: string, targetId?: string, ttlSeconds?: number): Promise<void> {
+  const key = KEYS.alertCooldown(type, targetId);
   await redis.setex(key, ttlSeconds || CONFIG.alertCooldownSeconds, 'true');
 }
 
+// ════════════════════════════════════════
+// Circuit Breakers (per price provider)
+// ════════════════════════════════════════
+
+function closedBreaker(source: string): CircuitBreakerRecord {
+  return {
+    source,
+    state: 'closed',
+    consecutiveFailures: 0,
+    openedAt: null,
+    retryAt: null,
+    lastError: null,
+    lastSuccessAt: null,
+  };
+}
+
+export async function getBreakerState(source: string): Promise<CircuitBreakerRecord> {
+  try {
+    const raw = await redis.get(KEYS.breaker(source));
+    if (!raw) return closedBreaker(source);
+    return typeof raw === 'string' ? JSON.parse(raw) : raw as CircuitBreakerRecord;
+  } catch (error) {
+    // Fail closed-breaker: a Redis hiccup must not block every source
+    logger.error({ error, source }, 'Failed to get breaker state');
+    return closedBreaker(source);
+  }
+}
+
+export async function setBreakerState(record: CircuitBreakerRecord): Promise<void> {
+  try {
+    await redis.set(KEYS.breaker(record.source), JSON.stringify(record));
+  } catch (error) {
+    logger.error({ error, source: record.source }, 'Failed to set breaker state');
+  }
+}
+
+export async function getBreakerStates(sources: string[]): Promise<CircuitBreakerRecord[]> {
+  return Promise.all(sources.map(getBreakerState));
+}
+
+/**
+ * Claim the half-open probe for a source (one replica at a time).
+ * Lock expires on its own so a crashed prober cannot wedge the breaker.
+ */
+export async function claimBreakerProbe(source: string): Promise<boolean> {
+  try {
+    const res = await redis.set(KEYS.breakerProbe(source), 'true', {
+      nx: true,
+      ex: CONFIG.breakerProbeLockSeconds,
+    });
+    return res === 'OK';
+  } catch (error) {
+    logger.error({ error, source }, 'Failed to claim breaker probe');
+    return false;
+  }
+}
+
+export async function releaseBreakerProbe(source: string): Promise<void> {
+  try {
+    await redis.del(KEYS.breakerProbe(source));
+  } catch { /* lock expires on its own */ }
+}
+
+// ════════════════════════════════════════
+// Quarantine (held updates, per target + metal)
+// ════════════════════════════════════════
+
+export async function getQuarantine(targetId: string, metal: Metal): Promise<QuarantineRecord | null> {
+  const raw = await redis.get(KEYS.quarantine(targetId, metal));
+  if (!raw) return null;
+  return typeof raw === 'string' ? JSON.parse(raw) : raw as QuarantineRecord;
+}
+
+export async function getQuarantines(targetId: string): Promise<QuarantineRecord[]> {
+  try {
+    const metals: Metal[] = ['gold', 'silver', 'platinum', 'palladium'];
+    const records = await Promise.all(metals.map(metal => getQuarantine(targetId, metal)));
+    return records.filter((r): r is QuarantineRecord => r !== null);
+  } catch (error) {
+    logger.error({ error }, 'Failed to get quarantine records');
+    return [];
+  }
+}
+
+export async function setQuarantine(targetId: string, record: QuarantineRecord): Promise<void> {
+  await redis.set(KEYS.quarantine(targetId, record.metal), JSON.stringify(record));
+}
+
+export async function clearQuarantine(targetId: string, metal: Metal): Promise<void> {
+  await redis.del(KEYS.quarantine(targetId, metal));
+}
+
+// ════════════════════════════════════════
+// Pending Transactions (per chainId:signer — one nonce sequence — hash field = nonce)
+// ════════════════════════════════════════
+
+function parsePending(raw: Record<string, unknown> | null): PendingTransaction[] {
+  if (!raw) return [];
+  return Object.values(raw)
+    .map(item => (typeof item === 'string' ? JSON.parse(item) : item) as PendingTransaction)
+    .sort((a, b) => a.nonce - b.nonce);
+}
+
+export async function getPendingTransactions(signerKey: string): Promise<PendingTransaction[]> {
+  return parsePending(await redis.hgetall<Record<string, unknown>>(KEYS.pendingTxs(signerKey)));
+}
+
+export async function savePendingTransaction(signerKey: string, record: PendingTransaction): Promise<void> {
+  await redis.hset(KEYS.pendingTxs(signerKey), { [String(record.nonce)]: JSON.stringify(record) });
+}
+
+export async function removePendingTransaction(signerKey: string, nonce: number): Promise<void> {
+  await redis.hdel(KEYS.pendingTxs(signerKey), String(nonce));
+}
+
+/**
+ * Records persisted per target by earlier versions; removed once read
+ */
+export async function takeLegacyPendingTransactions(targetId: string): Promise<PendingTransaction[]> {
+  const records = parsePending(await redis.hgetall<Record<string, unknown>>(KEYS.legacyPendingTxs(targetId)));
+  if (records.length > 0) await redis.del(KEYS.legacyPendingTxs(targetId));
+  return records;
+}
+
+// ════════════════════════════════════════
+// Signer Balance + Gas Spend (per target, newest first)
+// ════════════════════════════════════════
+
+export async function pushGasSpend(targetId: string, record: GasSpendRecord): Promise<void> {
+  await redis.lpush(KEYS.gasSpend(targetId), JSON.stringify(record));
+  await redis.ltrim(KEYS.gasSpend(targetId), 0, 4999);
+}
+
+export async function getGasSpends(targetId: string, sinceMs: number): Promise<GasSpendRecord[]> {
+  const raw = await redis.lrange(KEYS.gasSpend(targetId), 0, 4999);
+  return raw
+    .map((item: any) => (typeof item === 'string' ? JSON.parse(item) : item) as GasSpendRecord)
+    .filter(r => new Date(r.timestamp).getTime() >= sinceMs);
+}
+
+export async function getSignerBalance(targetId: string): Promise<SignerBalanceRecord | null> {
+  try {
+    const raw = await redis.get(KEYS.signerBalance(targetId));
+    if (!raw) return null;
+    return typeof raw === 'string' ? JSON.parse(raw) : raw as SignerBalanceRecord;
+  } catch {
+    return null;
+  }
+}
+
+export async function setSignerBalance(targetId: string, record: SignerBalanceRecord): Promise<void> {
+  await redis.set(KEYS.signerBalance(targetId), JSON.stringify(record));
+}
+
+// ════════════════════════════════════════
+// Decision Log (per target + tick, newest first; readable across namespaces)
+// ════════════════════════════════════════
+
+export async function pushDecision(targetId: string, record: DecisionRecord): Promise<void> {
+  try {
+    await redis.lpush(KEYS.decisions(targetId, NS), JSON.stringify(record));
+    await redis.ltrim(KEYS.decisions(targetId, NS), 0, 999);
+  } catch (error: any) {
+    logger.error({ error: error.message, target: targetId }, 'Failed to push decision');
+  }
+}
+
+/**
+ * @param namespace - another watcher's namespace (read-only), defaults to ours
+ */
+export async function getDecisions(targetId: string, limit: number = 50, namespace: string = NS): Promise<DecisionRecord[]> {
+  try {
+    const raw = await redis.lrange(KEYS.decisions(targetId, namespace), 0, limit - 1);
+    return raw.map((item: any) => (typeof item === 'string' ? JSON.parse(item) : item) as DecisionRecord);
+  } catch {
+    return [];
+  }
+}
+
+// ════════════════════════════════════════
+// On-chain Event Watcher (per target: own tx hashes, cursor, observed writes)
+// ════════════════════════════════════════
+
+/**
+ * Every hash we broadcast (replacements included): time index + one record
+ * per hash with the payload sent, both kept for ownTxRetentionMs
+ */
+export async function recordOwnTx(targetId: string, record: OwnTxRecord): Promise<void> {
+  const hash = record.hash.toLowerCase();
+  try {
+    await redis.set(KEYS.ownTx(targetId, hash), JSON.stringify({ ...record, hash }), {
+      px: CONFIG.ownTxRetentionMs,
+    });
+    await redis.zadd(KEYS.ownTxs(targetId), { score: new Date(record.sentAt).getTime(), member: hash });
+    await redis.zremrangebyscore(KEYS.ownTxs(targetId), 0, Date.now() - CONFIG.ownTxRetentionMs);
+  } catch (error: any) {
+    logger.error({ error: error.message, target: targetId, hash }, 'Failed to record own tx');
+  }
+}
+
+export async function getOwnTx(targetId: string, hash: string): Promise<OwnTxRecord | null> {
+  const raw = await redis.get(KEYS.ownTx(targetId, hash.toLowerCase()));
+  if (!raw) return null;
+  return typeof raw === 'string' ? JSON.parse(raw) : raw as OwnTxRecord;
+}
+
+/**
+ * Own transactions broadcast at or after sinceMs, oldest first
+ */
+export async function getOwnTxsSince(targetId: string, sinceMs: number): Promise<OwnTxRecord[]> {
+  const hashes = await redis.zrange<string[]>(KEYS.ownTxs(targetId), sinceMs, '+inf', { byScore: true });
+  const records = await Promise.all(hashes.map(hash => getOwnTx(targetId, String(hash))));
+  return records.filter((r): r is OwnTxRecord => r !== null);
+}
+
+export async function markOwnTxMined(targetId: string, hash: string, blockNumber: number): Promise<void> {
+  try {
+    const record = await getOwnTx(targetId, hash);
+    if (!record || record.blockNumber === blockNumber) return;
+    await redis.set(KEYS.ownTx(targetId, record.hash), JSON.stringify({ ...record, blockNumber }), {
+      px: Math.max(new Date(record.sentAt).getTime() + CONFIG.ownTxRetentionMs - Date.now(), 1000),
+    });
+  } catch (error: any) {
+    logger.error({ error: error.message, target: targetId, hash }, 'Failed to mark own tx mined');
+  }
+}
+
+export async function getEventCursor(targetId: string): Promise<OracleEventCursor | null> {
+  try {
+    const raw = await redis.get(KEYS.eventCursor(targetId));
+    if (!raw) return null;
+    return typeof raw === 'string' ? JSON.parse(raw) : raw as OracleEventCursor;
+  } catch {
+    return null;
+  }
+}
+
+export async function setEventCursor(targetId: string, cursor: OracleEventCursor): Promise<void> {
+  await redis.set(KEYS.eventCursor(targetId), JSON.stringify(cursor));
+}
+
+/**
+ * One replica scans a target at a time (cursor + alerts must not double up)
+ */
+export async function claimEventScan(targetId: string): Promise<boolean> {
+  try {
+    const res = await redis.set(KEYS.eventScanLock(targetId), 'true', {
+      nx: true,
+      ex: CONFIG.eventScanLockSeconds,
+    });
+    return res === 'OK';
+  } catch (error: any) {
+    logger.error({ error: error.message, target: targetId }, 'Failed to claim event scan');
+    return false;
+  }
+}
+
+export async function releaseEventScan(targetId: string): Promise<void> {
+  try {
+    await redis.del(KEYS.eventScanLock(targetId));
+  } catch (error: any) {
+    logger.error({ error: error.message, target: targetId }, 'Failed to release event scan');
+  }
+}
+
+export async function pushOracleChange(targetId: string, record: OracleChangeRecord): Promise<void> {
+  await redis.lpush(KEYS.oracleChanges(targetId), JSON.stringify(record));
+  await redis.ltrim(KEYS.oracleChanges(targetId), 0, 4999);
+}
+
+export async function getOracleChanges(targetId: string, limit: number = 50): Promise<OracleChangeRecord[]> {
+  try {
+    const raw = await redis.lrange(KEYS.oracleChanges(targetId), 0, limit - 1);
+    return raw.map((item: any) => (typeof item === 'string' ? JSON.parse(item) : item) as OracleChangeRecord);
+  } catch {
+    return [];
+  }
+}
+
+// ════════════════════════════════════════
+// Transaction Ledger (per target: attempts scored by time + daily counters)
+// ════════════════════════════════════════
+
+/**
+ * @param daily - counters to add to the record's UTC day, field "YYYY-MM-DD:metric"
+ */
+export async function appendLedgerRecord(
+  targetId: string,
+  record: TransactionLedgerRecord,
+  daily: Record<string, number>,
+): Promise<void> {
+  const ts = new Date(record.timestamp).getTime();
+  await redis.zadd(KEYS.txLedger(targetId), { score: ts, member: JSON.stringify(record) });
+  await Promise.all(Object.entries(daily)
+    .filter(([, value]) => value !== 0)
+    .map(([field, value]) => redis.hincrby(KEYS.txLedgerDaily(targetId), field, value)));
+  const cutoffMs = Date.now() - CONFIG.ledgerRetentionDays * 86_400_000;
+  await redis.zremrangebyscore(KEYS.txLedger(targetId), 0, cutoffMs);
+  await pruneLedgerDailyCounters(targetId, new Date(cutoffMs).toISOString().slice(0, 10));
+}
+
+// Last retention cutoff day the daily counters were pruned for, per target
+const ledgerDailyPrunedTo = new Map<string, string>();
+
+/**
+ * Drop daily counter fields ("YYYY-MM-DD:metric") for days before cutoffDay;
+ * at most once per target per day
+ */
+async function pruneLedgerDailyCounters(targetId: string, cutoffDay: string): Promise<void> {
+  if (ledgerDailyPrunedTo.get(targetId) === cutoffDay) return;
+  const fields = await redis.hkeys(KEYS.txLedgerDaily(targetId));
+  const expired = fields.filter(field => field.slice(0, 10) < cutoffDay);
+  if (expired.length > 0) await redis.hdel(KEYS.txLedgerDaily(targetId), ...expired);
+  ledgerDailyPrunedTo.set(targetId, cutoffDay);
+}
+
+/**
+ * Newest first within [fromMs, toMs]
+ */
+export async function getLedgerRecords(
+  targetId: string,
+  fromMs: number,
+  toMs: number,
+  offset: number,
+  limit: number,
+): Promise<{ total: number; records: TransactionLedgerRecord[] }> {
+  const [total, raw] = await Promise.all([
+    redis.zcount(KEYS.txLedger(targetId), fromMs, toMs),
+    redis.zrange<unknown[]>(KEYS.txLedger(targetId), toMs, fromMs, { byScore: true, rev: true, offset, count: limit }),
+  ]);
+  return {
+    total,
+    records: raw.map(item => (typeof item === 'string' ? JSON.parse(item) : item) as TransactionLedgerRecord),
+  };
+}
+
+export async function getLedgerDailyCounters(targetId: string): Promise<Record<string, string>> {
+  const raw = await redis.hgetall<Record<string, unknown>>(KEYS.txLedgerDaily(targetId));
+  return Object.fromEntries(Object.entries(raw ?? {}).map(([field, value]) => [field, String(value)]));
+}
+
 // ════════════════════════════════════════
 // Shared Price Cache (wallet app reads these)
 // ════════════════════════════════════════
 
 export async function updateSharedPriceCache(prices: MetalPrices): Promise<void> {
+  // A shadow watcher must never feed the wallet app
+  if (CONFIG.shadowMode) return;
+
   try {
     const data = { ...prices, timestamp: Date.now() };
     // 60s TTL cache (matches wallet price-cache.ts)
@@ -260,16 +681,19 @@ export async function getSpreadConfig(): Promise<SpreadConfig> {
 // Read Stale Prices from Shared Cache
 // ════════════════════════════════════════
 
-export async function getStalePrices(): Promise<MetalPrices | null> {
+export async function getStalePrices(): Promise<{ prices: MetalPrices; timestamp: number | null } | null> {
   try {
     const raw = await redis.get(KEYS.sharedPriceStale);
     if (!raw) return null;
     const parsed = typeof raw === 'string' ? JSON.parse(raw) : raw;
     return {
-      gold: parsed.gold,
-      silver: parsed.silver,
-      platinum: parsed.platinum,
-      palladium: parsed.palladium,
+      prices: {
+        gold: parsed.gold,
+        silver: parsed.silver,
+        platinum: parsed.platinum,
+        palladium: parsed.palladium,
+      },
+      timestamp: Number(parsed.timestamp) || null,
     };
   } catch {
     return null;
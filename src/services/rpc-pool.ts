@@ -0,0 +1,251 @@
+/**
+ * RPC Provider Pool — one long-lived provider per set of RPC URLs
+ *
+ * Every JSON-RPC request (reads, eth_sendRawTransaction, receipt polling)
+ * goes to the best-ranked endpoint; a transport failure (timeout, HTTP
+ * error, connection refused) is retried on the next one. JSON-RPC error
+ * responses (reverts, nonce too low) are returned as-is — they would fail
+ * the same way on any node.
+ *
+ * Ranking: healthy endpoints first, then by score
+ *   latency EWMA + error-rate penalty + block-lag penalty
+ * An endpoint is unhealthy while cooling down after N consecutive failures,
+ * or while more than rpcMaxBlockLag blocks behind the best in the pool.
+ * Block heights are probed every rpcHealthCheckIntervalMs (lazily, on use).
+ */
+
+import { ethers } from 'ethers';
+import { CONFIG } from '../config';
+import { logger } from '../utils/logger';
+import type { RpcEndpointHealth } from '../types';
+
+const LATENCY_ALPHA = 0.3;
+const ERROR_ALPHA = 0.1;
+const ERROR_PENALTY_MS = 2000;   // errorRate 1.0 ranks like +2s latency
+const LAG_PENALTY_MS = 250;      // per block behind
+
+interface Endpoint {
+  url: string;
+  label: string;
+  provider: ethers.JsonRpcProvider;
+  latencyMs: number | null;
+  errorRate: number;
+  blockNumber: number | null;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  lastError: string | null;
+  lastCheckedAt: number | null;
+}
+
+/**
+ * Host of an RPC URL, for logs and /status (paths and queries often carry API keys)
+ */
+export function endpointLabel(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid-url';
+  }
+}
+
+function createEndpoint(url: string): Endpoint {
+  const request = new ethers.FetchRequest(url);
+  request.timeout = CONFIG.rpcRequestTimeoutMs;
+  return {
+    url,
+    label: endpointLabel(url),
+    provider: new ethers.JsonRpcProvider(request, undefined, { batchMaxCount: 1 }),
+    latencyMs: null,
+    errorRate: 0,
+    blockNumber: null,
+    consecutiveFailures: 0,
+    cooldownUntil: 0,
+    lastError: null,
+    lastCheckedAt: null,
+  };
+}
+
+function bestBlock(endpoints: Endpoint[]): number | null {
+  const blocks = endpoints.map(e => e.blockNumber).filter((b): b is number => b !== null);
+  return blocks.length > 0 ? Math.max(...blocks) : null;
+}
+
+function blockLag(endpoint: Endpoint, best: number | null): number | null {
+  if (best === null || endpoint.blockNumber === null) return null;
+  return best - endpoint.blockNumber;
+}
+
+function isHealthy(endpoint: Endpoint, best: number | null): boolean {
+  if (endpoint.cooldownUntil > Date.now()) return false;
+  const lag = blockLag(endpoint, best);
+  return lag === null || lag <= CONFIG.rpcMaxBlockLag;
+}
+
+function score(endpoint: Endpoint, best: number | null): number {
+  return (endpoint.latencyMs ?? 0)
+    + endpoint.errorRate * ERROR_PENALTY_MS
+    + (blockLag(endpoint, best) ?? 0) * LAG_PENALTY_MS;
+}
+
+/**
+ * Endpoints in the order they should be tried. Unhealthy ones stay at the
+ * back as a last resort rather than failing the request outright.
+ */
+function rank(endpoints: Endpoint[]): Endpoint[] {
+  const best = bestBlock(endpoints);
+  return endpoints
+    .map((endpoint, index) => ({ endpoint, index, healthy: isHealthy(endpoint, best), score: score(endpoint, best) }))
+    .sort((a, b) => Number(b.healthy) - Number(a.healthy) || a.score - b.score || a.index - b.index)
+    .map(r => r.endpoint);
+}
+
+function recordSuccess(endpoint: Endpoint, latencyMs: number): void {
+  endpoint.latencyMs = endpoint.latencyMs === null
+    ? latencyMs
+    : endpoint.latencyMs * (1 - LATENCY_ALPHA) + latencyMs * LATENCY_ALPHA;
+  endpoint.errorRate *= 1 - ERROR_ALPHA;
+  endpoint.consecutiveFailures = 0;
+  endpoint.cooldownUntil = 0;
+  endpoint.lastCheckedAt = Date.now();
+}
+
+function recordFailure(endpoint: Endpoint, error: any): void {
+  endpoint.errorRate = endpoint.errorRate * (1 - ERROR_ALPHA) + ERROR_ALPHA;
+  endpoint.consecutiveFailures++;
+  endpoint.lastError = error?.shortMessage || error?.message || String(error);
+  endpoint.lastCheckedAt = Date.now();
+
+  if (endpoint.consecutiveFailures >= CONFIG.rpcMaxConsecutiveFailures) {
+    endpoint.cooldownUntil = Date.now() + CONFIG.rpcFailureCooldownMs;
+    logger.warn({
+      endpoint: endpoint.label,
+      failures: endpoint.consecutiveFailures,
+      cooldownMs: CONFIG.rpcFailureCooldownMs,
+      error: endpoint.lastError,
+    }, 'RPC endpoint marked unhealthy');
+  }
+}
+
+function recordBlock(endpoint: Endpoint, result: JsonRpcResponse | undefined): void {
+  if (result && 'result' in result && typeof result.result === 'string') {
+    endpoint.blockNumber = Number(result.result);
+  }
+}
+
+type JsonRpcPayload = ethers.JsonRpcPayload;
+type JsonRpcResponse = ethers.JsonRpcResult | ethers.JsonRpcError;
+
+/**
+ * Provider over a pool of endpoints. Subclasses JsonRpcApiProvider so
+ * contracts, signers and receipt polling use the pool transparently.
+ */
+class PooledProvider extends ethers.JsonRpcApiProvider {
+  readonly endpoints: Endpoint[];
+  private lastProbeAt = 0;
+  private probing: Promise<void> | null = null;
+
+  constructor(urls: string[]) {
+    super(undefined, { batchMaxCount: 1 });
+    this.endpoints = urls.map(createEndpoint);
+  }
+
+  async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResponse[]> {
+    void this.probeIfStale();
+
+    const method = Array.isArray(payload) ? payload[0]?.method : payload.method;
+    let lastError: any = null;
+
+    for (const endpoint of rank(this.endpoints)) {
+      const started = Date.now();
+      try {
+        const results = await endpoint.provider._send(payload);
+        recordSuccess(endpoint, Date.now() - started);
+        if (method === 'eth_blockNumber' && !Array.isArray(payload)) recordBlock(endpoint, results[0]);
+        return results;
+      } catch (error: any) {
+        recordFailure(endpoint, error);
+        lastError = error;
+        if (this.endpoints.length > 1) {
+          logger.warn({ endpoint: endpoint.label, method, error: endpoint.lastError }, 'RPC request failed — failing over');
+        }
+      }
+    }
+
+    throw lastError ?? new Error('RPC pool has no endpoints');
+  }
+
+  /**
+   * Refresh block height and latency of every endpoint; single-flight
+   */
+  probe(): Promise<void> {
+    if (!this.probing) {
+      this.lastProbeAt = Date.now();
+      this.probing = Promise.all(this.endpoints.map(async (endpoint) => {
+        const started = Date.now();
+        try {
+          const [result] = await endpoint.provider._send({ id: 0, jsonrpc: '2.0', method: 'eth_blockNumber', params: [] });
+          if ('error' in result) throw new Error(JSON.stringify(result.error));
+          recordSuccess(endpoint, Date.now() - started);
+          recordBlock(endpoint, result);
+        } catch (error: any) {
+          recordFailure(endpoint, error);
+        }
+      })).then(() => { this.probing = null; });
+    }
+    return this.probing;
+  }
+
+  probeIfStale(): Promise<void> {
+    if (this.probing) return this.probing;
+    if (Date.now() - this.lastProbeAt <= CONFIG.rpcHealthCheckIntervalMs) return Promise.resolve();
+    return this.probe();
+  }
+
+  health(): RpcEndpointHealth[] {
+    const best = bestBlock(this.endpoints);
+    const active = rank(this.endpoints)[0];
+    return this.endpoints.map(endpoint => ({
+      endpoint: endpoint.label,
+      healthy: isHealthy(endpoint, best),
+      active: endpoint === active,
+      latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+      errorRate: Math.round(endpoint.errorRate * 1000) / 1000,
+      blockNumber: endpoint.blockNumber,
+      blockLag: blockLag(endpoint, best),
+      consecutiveFailures: endpoint.consecutiveFailures,
+      cooldownUntil: endpoint.cooldownUntil > Date.now() ? new Date(endpoint.cooldownUntil).toISOString() : null,
+      lastError: endpoint.lastError,
+      lastCheckedAt: endpoint.lastCheckedAt ? new Date(endpoint.lastCheckedAt).toISOString() : null,
+    }));
+  }
+}
+
+// Pools by URL list — targets on the same chain share one
+const pools = new Map<string, PooledProvider>();
+
+function getPool(urls: string[]): PooledProvider {
+  const key = urls.join(',');
+  let pool = pools.get(key);
+  if (!pool) {
+    pool = new PooledProvider(urls);
+    pools.set(key, pool);
+    logger.info({ endpoints: urls.map(endpointLabel) }, 'RPC provider pool created');
+  }
+  return pool;
+}
+
+/**
+ * Shared provider for a set of RPC URLs (a target's rpcUrls)
+ */
+export function getPoolProvider(urls: string[]): ethers.Provider {
+  return getPool(urls);
+}
+
+/**
+ * Endpoint health for /status; probes first if the last probe is stale
+ */
+export async function getPoolHealth(urls: string[]): Promise<RpcEndpointHealth[]> {
+  const pool = getPool(urls);
+  await pool.probeIfStale();
+  return pool.health();
+}
@@ -0,0 +1,79 @@
+/**
+ * Signer Backends
+ * Every oracle write goes through its target's signer, chosen by
+ * signer.backend (SIGNER_BACKEND for the default target): 'keystore',
+ * 'remote', or 'raw-key' for development.
+ * Each target's base signer is loaded once and connected to a provider per use.
+ */
+
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import { rawKeyBackend } from './raw-key';
+import { keystoreBackend } from './keystore';
+import { remoteBackend } from './remote';
+import type { OracleTarget, SignerBackendId, SignerSettings } from '../../types';
+
+export interface SignerBackend {
+  id: SignerBackendId;
+  name: string;
+  isConfigured: (settings: SignerSettings) => boolean;  // cheap check, no I/O
+  load: (settings: SignerSettings) => Promise<ethers.Signer>;
+}
+
+const BACKENDS: Record<SignerBackendId, SignerBackend> = {
+  'raw-key': rawKeyBackend,
+  keystore: keystoreBackend,
+  remote: remoteBackend,
+};
+
+// Loaded signers per target id
+const loaded = new Map<string, Promise<ethers.Signer>>();
+
+function backendFor(target: OracleTarget): SignerBackend {
+  const backend = BACKENDS[target.signer.backend];
+  if (!backend) throw new Error(`Unknown signer backend "${target.signer.backend}" for target ${target.id}`);
+  return backend;
+}
+
+export function isSignerConfigured(target: OracleTarget): boolean {
+  const backend = BACKENDS[target.signer.backend];
+  return !!backend && backend.isConfigured(target.signer);
+}
+
+async function loadSigner(target: OracleTarget): Promise<ethers.Signer> {
+  let pending = loaded.get(target.id);
+  if (!pending) {
+    const backend = backendFor(target);
+    pending = backend.load(target.signer);
+    loaded.set(target.id, pending);
+    try {
+      const signer = await pending;
+      logger.info({ target: target.id, backend: backend.id, address: await signer.getAddress() },
+        `Signer loaded (${backend.name})`);
+    } catch (error) {
+      loaded.delete(target.id);  // retry on the next call (password file mounted late, signer down…)
+      throw error;
+    }
+  }
+  return pending;
+}
+
+/**
+ * Target's signer, connected to the given provider
+ */
+export async function getSigner(target: OracleTarget, provider: ethers.Provider): Promise<ethers.Signer> {
+  return (await loadSigner(target)).connect(provider);
+}
+
+/**
+ * Address of the target's signer, or null when none is configured or it fails to load
+ */
+export async function getSignerAddress(target: OracleTarget): Promise<string | null> {
+  if (!isSignerConfigured(target)) return null;
+  try {
+    return await (await loadSigner(target)).getAddress();
+  } catch (error: any) {
+    logger.error({ error: error.message, target: target.id, backend: target.signer.backend }, 'Failed to load signer');
+    return null;
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Encrypted JSON keystore signer (KEYSTORE_PATH + password)
+ * The password comes from KEYSTORE_PASSWORD_FILE (e.g. a mounted secret) or
+ * KEYSTORE_PASSWORD. Decryption is scrypt-heavy, so it runs once per process.
+ */
+
+import { readFile } from 'fs/promises';
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import type { SignerBackend } from './index';
+import type { SignerSettings } from '../../types';
+
+async function readPassword(settings: SignerSettings): Promise<string> {
+  if (settings.keystorePasswordFile) {
+    return (await readFile(settings.keystorePasswordFile, 'utf8')).trim();
+  }
+  if (settings.keystorePassword) return settings.keystorePassword;
+  throw new Error('KEYSTORE_PASSWORD_FILE or KEYSTORE_PASSWORD not set');
+}
+
+async function loadKeystore(settings: SignerSettings): Promise<ethers.Signer> {
+  if (!settings.keystorePath) throw new Error('KEYSTORE_PATH not set');
+
+  const json = await readFile(settings.keystorePath, 'utf8');
+  const start = Date.now();
+  const wallet = await ethers.Wallet.fromEncryptedJson(json, await readPassword(settings));
+  logger.info({ address: wallet.address, decryptMs: Date.now() - start }, 'Keystore decrypted');
+
+  // fromEncryptedJson may return an HDNodeWallet; keep only the key
+  return new ethers.Wallet(wallet.privateKey);
+}
+
+export const keystoreBackend: SignerBackend = {
+  id: 'keystore',
+  name: 'Encrypted JSON keystore',
+  isConfigured: (settings) => !!settings.keystorePath,
+  load: loadKeystore,
+};
@@ -0,0 +1,16 @@
+/**
+ * Raw private key signer (PRIVATE_KEY) — development only
+ */
+
+import { ethers } from 'ethers';
+import type { SignerBackend } from './index';
+
+export const rawKeyBackend: SignerBackend = {
+  id: 'raw-key',
+  name: 'Raw private key',
+  isConfigured: (settings) => !!settings.privateKey,
+  load: async (settings) => {
+    if (!settings.privateKey) throw new Error('PRIVATE_KEY not set');
+    return new ethers.Wallet(settings.privateKey);
+  },
+};
@@ -0,0 +1,145 @@
+/**
+ * Remote signer — JSON-RPC eth_signTransaction over HTTP (REMOTE_SIGNER_URL)
+ * The key never enters this process. Transactions are populated locally
+ * (nonce, fees, gas from the tx manager), signed remotely, then broadcast
+ * through our own provider.
+ */
+
+import { ethers } from 'ethers';
+import { CONFIG } from '../../config';
+import type { SignerBackend } from './index';
+import type { SignerSettings } from '../../types';
+
+let requestId = 0;
+
+async function rpc<T>(settings: SignerSettings, method: string, params: unknown[]): Promise<T> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.remoteToken) headers['Authorization'] = `Bearer ${settings.remoteToken}`;
+
+  const res = await fetch(settings.remoteUrl!, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ jsonrpc: '2.0', id: ++requestId, method, params }),
+    signal: AbortSignal.timeout(CONFIG.remoteSignerTimeoutMs),
+  });
+  if (!res.ok) throw new Error(`Remote signer HTTP ${res.status}`);
+
+  const body = await res.json() as { result?: T; error?: { code: number; message: string } };
+  if (body.error) throw new Error(`Remote signer ${method} failed: ${body.error.message} (${body.error.code})`);
+  if (body.result === undefined) throw new Error(`Remote signer ${method} returned no result`);
+  return body.result;
+}
+
+function toRpcTransaction(tx: ethers.TransactionLike<string>, from: string): Record<string, string> {
+  const out: Record<string, string> = { from };
+  if (typeof tx.to === 'string') out.to = tx.to;
+  if (tx.data) out.data = tx.data;
+  if (tx.value != null) out.value = ethers.toQuantity(tx.value);
+  if (tx.nonce != null) out.nonce = ethers.toQuantity(tx.nonce);
+  if (tx.gasLimit != null) out.gas = ethers.toQuantity(tx.gasLimit);
+  if (tx.chainId != null) out.chainId = ethers.toQuantity(tx.chainId);
+  if (tx.type != null) out.type = ethers.toQuantity(tx.type);
+  if (tx.maxFeePerGas != null) out.maxFeePerGas = ethers.toQuantity(tx.maxFeePerGas);
+  if (tx.maxPriorityFeePerGas != null) out.maxPriorityFeePerGas = ethers.toQuantity(tx.maxPriorityFeePerGas);
+  if (tx.gasPrice != null) out.gasPrice = ethers.toQuantity(tx.gasPrice);
+  return out;
+}
+
+/**
+ * Fields of the signed transaction that differ from what we asked to sign.
+ * Fields we left to the signer (unset in the request) are not compared.
+ */
+function signedMismatches(requested: Record<string, string>, signed: ethers.Transaction): string[] {
+  const mismatches: string[] = [];
+  const quantity = (field: string, actual: bigint | null) => {
+    if (requested[field] === undefined) return;
+    if (actual === null || BigInt(requested[field]) !== actual) mismatches.push(`${field} ${requested[field]} → ${actual}`);
+  };
+
+  if ((requested.to ?? '').toLowerCase() !== (signed.to ?? '').toLowerCase()) {
+    mismatches.push(`to ${requested.to ?? 'none'} → ${signed.to ?? 'none'}`);
+  }
+  if ((requested.data ?? '0x').toLowerCase() !== signed.data.toLowerCase()) mismatches.push('data');
+  if (BigInt(requested.value ?? 0) !== signed.value) mismatches.push(`value ${requested.value ?? '0x0'} → ${signed.value}`);
+  quantity('nonce', BigInt(signed.nonce));
+  quantity('chainId', signed.chainId);
+  quantity('gas', signed.gasLimit);
+  quantity('maxFeePerGas', signed.maxFeePerGas);
+  quantity('maxPriorityFeePerGas', signed.maxPriorityFeePerGas);
+  quantity('gasPrice', signed.gasPrice);
+  return mismatches;
+}
+
+export class RemoteSigner extends ethers.AbstractSigner {
+  readonly address: string;
+
+  constructor(private readonly settings: SignerSettings, address: string, provider: ethers.Provider | null = null) {
+    super(provider);
+    this.address = ethers.getAddress(address);
+  }
+
+  connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(this.settings, this.address, provider);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    // tx may be an ethers Transaction (getter fields), so read rather than spread it
+    const { to, from } = await ethers.resolveProperties({
+      to: tx.to ? ethers.resolveAddress(tx.to, this.provider) : undefined,
+      from: tx.from ? ethers.resolveAddress(tx.from, this.provider) : undefined,
+    });
+    if (from && from.toLowerCase() !== this.address.toLowerCase()) {
+      throw new Error(`transaction from ${from} does not match remote signer ${this.address}`);
+    }
+
+    const rpcTx = toRpcTransaction(tx as ethers.TransactionLike<string>, this.address);
+    if (to) rpcTx.to = to;
+    const result = await rpc<string | { raw: string }>(this.settings, 'eth_signTransaction', [rpcTx]);
+    const raw = typeof result === 'string' ? result : result.raw;
+
+    // Never broadcast something other than what we asked to sign
+    const signed = ethers.Transaction.from(raw);
+    if (signed.from?.toLowerCase() !== this.address.toLowerCase()) {
+      throw new Error(`remote signer signed as ${signed.from}, expected ${this.address}`);
+    }
+    const mismatches = signedMismatches(rpcTx, signed);
+    if (mismatches.length > 0) {
+      throw new Error(`remote signer changed the transaction: ${mismatches.join(', ')}`);
+    }
+    return raw;
+  }
+
+  async signMessage(): Promise<string> {
+    throw new Error('RemoteSigner only signs transactions');
+  }
+
+  async signTypedData(): Promise<string> {
+    throw new Error('RemoteSigner only signs transactions');
+  }
+}
+
+async function loadRemote(settings: SignerSettings): Promise<ethers.Signer> {
+  if (!settings.remoteUrl) throw new Error('REMOTE_SIGNER_URL not set');
+
+  // Address pinned in config, or the signer's single account
+  let address = settings.remoteAddress;
+  if (!address) {
+    const accounts = await rpc<string[]>(settings, 'eth_accounts', []);
+    if (accounts.length !== 1) {
+      throw new Error(`Remote signer exposes ${accounts.length} accounts — set REMOTE_SIGNER_ADDRESS`);
+    }
+    address = accounts[0];
+  }
+  return new RemoteSigner(settings, address);
+}
+
+export const remoteBackend: SignerBackend = {
+  id: 'remote',
+  name: 'Remote JSON-RPC signer',
+  isConfigured: (settings) => !!settings.remoteUrl,
+  load: loadRemote,
+};
@@ -0,0 +1,135 @@
+/**
+ * Oracle Targets — every deployment the watcher publishes to
+ *
+ * ORACLE_TARGETS is a JSON array; each entry needs id, rpcUrl (or an
+ * rpcUrls pool) and oracleAddress, everything else falls back to the global config:
+ *
+ *   [{ "id": "base-sepolia", "name": "Base Sepolia",
+ *      "rpcUrls": ["https://sepolia.base.org", "https://base-sepolia-rpc.publicnode.com"],
+ *      "oracleAddress": "0x…",
+ *      "signer": { "backend": "keystore", "keystorePath": "/secrets/testnet.json",
+ *                  "keystorePasswordFile": "/secrets/testnet.pass" },
+ *      "thresholds": { "deviationPct": 1.0 },
+ *      "metals": { "palladium": { "deviationPct": 2.0 } },
+ *      "fees": { "gasCeilingGwei": 5 } }]
+ *
+ * A raw-key signer names its env var ("privateKeyEnv") instead of embedding the key.
+ * Without ORACLE_TARGETS there is one target, "default", built from
+ * BASE_RPC_URLS (or BASE_RPC_URL) / ORACLE_ADDRESS / SIGNER_BACKEND. The "default" target keeps
+ * the original un-prefixed Redis keys, so its kill switch and history carry over.
+ */
+
+import { CONFIG } from '../config';
+import type { FeeLimits, Metal, MetalThresholds, OracleTarget, SignerBackendId, SignerSettings } from '../types';
+
+export const DEFAULT_TARGET_ID = 'default';
+
+const METALS: readonly Metal[] = ['gold', 'silver', 'platinum', 'palladium'];
+const SIGNER_BACKENDS: readonly SignerBackendId[] = ['raw-key', 'keystore', 'remote'];
+
+function defaultSigner(): SignerSettings {
+  return {
+    backend: CONFIG.signerBackend,
+    privateKey: CONFIG.privateKey,
+    keystorePath: CONFIG.keystorePath,
+    keystorePassword: CONFIG.keystorePassword,
+    keystorePasswordFile: CONFIG.keystorePasswordFile,
+    remoteUrl: CONFIG.remoteSignerUrl,
+    remoteAddress: CONFIG.remoteSignerAddress,
+    remoteToken: CONFIG.remoteSignerToken,
+  };
+}
+
+function defaultFees(): FeeLimits {
+  return {
+    maxFeeGwei: CONFIG.maxFeeGwei,
+    maxPriorityFeeGwei: CONFIG.maxPriorityFeeGwei,
+    gasCeilingGwei: CONFIG.gasCeilingGwei,
+    severeDeviationPct: CONFIG.severeDeviationPct,
+  };
+}
+
+function parseSigner(id: string, raw: any): SignerSettings {
+  if (!raw) return defaultSigner();
+  if (!SIGNER_BACKENDS.includes(raw.backend)) {
+    throw new Error(`ORACLE_TARGETS[${id}]: signer.backend must be one of ${SIGNER_BACKENDS.join(', ')}`);
+  }
+  return {
+    backend: raw.backend,
+    privateKey: raw.privateKeyEnv ? process.env[raw.privateKeyEnv] || '' : '',
+    keystorePath: raw.keystorePath,
+    keystorePassword: raw.keystorePasswordEnv ? process.env[raw.keystorePasswordEnv] || '' : '',
+    keystorePasswordFile: raw.keystorePasswordFile,
+    remoteUrl: raw.remoteUrl,
+    remoteAddress: raw.remoteAddress,
+    remoteToken: raw.remoteTokenEnv ? process.env[raw.remoteTokenEnv] || '' : '',
+  };
+}
+
+function parseTarget(raw: any): OracleTarget {
+  const id = String(raw?.id || '');
+  if (!/^[a-z0-9-]+$/.test(id)) throw new Error(`ORACLE_TARGETS: invalid id "${id}" (use a-z, 0-9, -)`);
+  const rpcUrls: string[] = Array.isArray(raw.rpcUrls) ? raw.rpcUrls.filter(Boolean) : raw.rpcUrl ? [raw.rpcUrl] : [];
+  if (rpcUrls.length === 0) throw new Error(`ORACLE_TARGETS[${id}]: rpcUrl or rpcUrls required`);
+  if (!raw.oracleAddress) throw new Error(`ORACLE_TARGETS[${id}]: oracleAddress required`);
+
+  const metalThresholds = {} as Record<Metal, MetalThresholds>;
+  for (const metal of METALS) {
+    metalThresholds[metal] = {
+      ...CONFIG.metalThresholds[metal],
+      ...(raw.thresholds ?? {}),
+      ...(raw.metals?.[metal] ?? {}),
+    };
+  }
+
+  return {
+    id,
+    name: raw.name || id,
+    rpcUrls,
+    oracleAddress: raw.oracleAddress,
+    signer: parseSigner(id, raw.signer),
+    metalThresholds,
+    fees: { ...defaultFees(), ...(raw.fees ?? {}) },
+  };
+}
+
+function loadTargets(): OracleTarget[] {
+  if (!CONFIG.oracleTargetsJson) {
+    return [{
+      id: DEFAULT_TARGET_ID,
+      name: 'Base',
+      rpcUrls: CONFIG.rpcUrls.length > 0 ? CONFIG.rpcUrls : [CONFIG.rpcUrl],
+      oracleAddress: CONFIG.oracleAddress,
+      signer: defaultSigner(),
+      metalThresholds: CONFIG.metalThresholds,
+      fees: defaultFees(),
+    }];
+  }
+
+  const parsed = JSON.parse(CONFIG.oracleTargetsJson);
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error('ORACLE_TARGETS must be a non-empty JSON array');
+  }
+  const targets = parsed.map(parseTarget);
+  const ids = new Set(targets.map(t => t.id));
+  if (ids.size !== targets.length) throw new Error('ORACLE_TARGETS: duplicate target id');
+  return targets;
+}
+
+let targets: OracleTarget[] | null = null;
+
+/**
+ * Configured targets; the first is the primary (ETH oracle-last source, default for admin views)
+ */
+export function getTargets(): OracleTarget[] {
+  if (!targets) targets = loadTargets();
+  return targets;
+}
+
+export function getTarget(id: string): OracleTarget | undefined {
+  return getTargets().find(t => t.id === id);
+}
+
+export function getPrimaryTarget(): OracleTarget {
+  return getTargets()[0];
+}
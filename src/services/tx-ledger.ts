@@ -0,0 +1,192 @@
+/**
+ * Transaction Ledger — every oracle update attempt, kept in Redis
+ *
+ * One record per attempt (confirmed, failed, deferred by the gas ceiling,
+ * simulated in shadow mode, or confirmed later by startup reconciliation),
+ * plus per-day counters so cost questions don't need a full scan. Both are
+ * trimmed to LEDGER_RETENTION_DAYS; costs include the L1 data fee.
+ * Read back through GET /admin/transactions.
+ */
+
+import { randomUUID } from 'crypto';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { appendLedgerRecord, getLedgerRecords, getLedgerDailyCounters } from './redis-state';
+import type {
+  LedgerDailyAggregate,
+  LedgerOutcome,
+  MetalPrices,
+  OracleTarget,
+  TransactionLedgerRecord,
+  UpdateReason,
+  UpdateResult,
+} from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dayOf(timestamp: string | number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function toEth(wei: string | null): number | null {
+  return wei === null ? null : Number(ethers.formatEther(wei));
+}
+
+async function append(targetId: string, record: TransactionLedgerRecord): Promise<void> {
+  const day = dayOf(record.timestamp);
+  // A reconciled tx counts by its receipt: reverted ones are failures, not updates
+  const counted = record.outcome === 'reconciled' && record.errorCategory === 'reverted' ? 'failed' : record.outcome;
+  try {
+    await appendLedgerRecord(targetId, record, {
+      [`${day}:attempts`]: 1,
+      [`${day}:${counted}`]: 1,
+      [`${day}:gasUsed`]: record.gasUsed ? Number(record.gasUsed) : 0,
+      [`${day}:costGwei`]: record.costWei ? Number(BigInt(record.costWei) / 1_000_000_000n) : 0,
+    });
+  } catch (error: any) {
+    logger.error({ error: error.message, target: targetId, outcome: record.outcome, txHash: record.txHash },
+      'Failed to record ledger entry');
+  }
+}
+
+/**
+ * Record what updateOracle() returned for one tick
+ */
+export async function recordUpdateAttempt(
+  target: OracleTarget,
+  result: UpdateResult,
+  context: { reason: UpdateReason | null; severe: boolean },
+): Promise<void> {
+  let outcome: LedgerOutcome = 'failed';
+  if (result.dryRun) outcome = 'simulated';
+  else if (result.success) outcome = 'confirmed';
+  else if (result.errorCategory === 'fee_ceiling') outcome = 'deferred';
+
+  const costWei = result.gasCostWei ?? null;
+  await append(target.id, {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    target: target.id,
+    outcome,
+    reason: context.reason,
+    severe: context.severe,
+    txHash: result.txHash || null,
+    blockNumber: result.blockNumber ?? null,
+    gasUsed: result.gasUsed ?? null,
+    effectiveGasPrice: result.effectiveGasPrice ?? null,
+    costWei,
+    costEth: toEth(costWei),
+    prices: result.prices,
+    ethPrice: result.ethPrice,
+    errorCategory: result.errorCategory,
+    error: result.error,
+    verified: result.verification?.verified,
+    simulatedGas: result.simulatedGas,
+  });
+}
+
+/**
+ * A transaction a previous run left pending, settled at startup
+ * @param cost - what it cost, L1 data fee included (recordGasSpend)
+ */
+export async function recordReconciledUpdate(
+  target: OracleTarget,
+  receipt: ethers.TransactionReceipt,
+  payload: { prices: MetalPrices; ethPrice: number },
+  cost: bigint,
+): Promise<void> {
+  const costWei = cost.toString();
+  await append(target.id, {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    target: target.id,
+    outcome: 'reconciled',
+    reason: null,
+    severe: false,
+    txHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed.toString(),
+    effectiveGasPrice: receipt.gasPrice.toString(),
+    costWei,
+    costEth: toEth(costWei),
+    prices: payload.prices,
+    ethPrice: payload.ethPrice,
+    ...(receipt.status !== 1 ? { errorCategory: 'reverted' as const, error: 'reverted on-chain' } : {}),
+  });
+}
+
+function aggregateDays(counters: Record<string, string>, fromMs: number, toMs: number): LedgerDailyAggregate[] {
+  const fromDay = dayOf(fromMs);
+  const toDay = dayOf(toMs);
+  const byDay = new Map<string, Record<string, number>>();
+
+  for (const [field, value] of Object.entries(counters)) {
+    const [day, metric] = field.split(':');
+    if (day < fromDay || day > toDay) continue;
+    const metrics = byDay.get(day) ?? {};
+    metrics[metric] = Number(value);
+    byDay.set(day, metrics);
+  }
+
+  return [...byDay.entries()]
+    .sort(([a], [b]) => (a < b ? 1 : -1))
+    .map(([date, m]) => {
+      const costGwei = m.costGwei ?? 0;
+      const costEth = costGwei / 1e9;
+      const paid = (m.confirmed ?? 0) + (m.reconciled ?? 0);
+      return {
+        date,
+        attempts: m.attempts ?? 0,
+        confirmed: m.confirmed ?? 0,
+        failed: m.failed ?? 0,
+        deferred: m.deferred ?? 0,
+        simulated: m.simulated ?? 0,
+        reconciled: m.reconciled ?? 0,
+        gasUsed: m.gasUsed ?? 0,
+        costGwei,
+        costEth,
+        avgCostEth: paid > 0 ? costEth / paid : null,
+      };
+    });
+}
+
+/**
+ * One page of attempts in [fromMs, toMs] (newest first), with daily totals
+ * for the whole range (whole UTC days)
+ */
+export async function getLedger(
+  target: OracleTarget,
+  options: { fromMs?: number; toMs?: number; offset: number; limit: number },
+) {
+  const toMs = options.toMs ?? Date.now();
+  const fromMs = options.fromMs ?? toMs - 7 * DAY_MS;
+
+  const [{ total, records }, counters] = await Promise.all([
+    getLedgerRecords(target.id, fromMs, toMs, options.offset, options.limit),
+    getLedgerDailyCounters(target.id),
+  ]);
+
+  const daily = aggregateDays(counters, fromMs, toMs);
+  const totals = daily.reduce(
+    (sum, d) => ({
+      attempts: sum.attempts + d.attempts,
+      confirmed: sum.confirmed + d.confirmed + d.reconciled,
+      failed: sum.failed + d.failed,
+      deferred: sum.deferred + d.deferred,
+      gasUsed: sum.gasUsed + d.gasUsed,
+      costEth: sum.costEth + d.costEth,
+    }),
+    { attempts: 0, confirmed: 0, failed: 0, deferred: 0, gasUsed: 0, costEth: 0 },
+  );
+
+  return {
+    from: new Date(fromMs).toISOString(),
+    to: new Date(toMs).toISOString(),
+    total,
+    offset: options.offset,
+    limit: options.limit,
+    transactions: records,
+    daily,
+    totals,
+  };
+}
@@ -0,0 +1,438 @@
+/**
+ * Transaction Manager — EIP-1559 fee strategy + stuck-tx replacement
+ *
+ * - Fees: priority fee and max fee capped by config (absolute caps)
+ * - Ceiling: refuses to send while the base fee is above gasCeilingGwei,
+ *   unless the caller flags the update as severe
+ * - Confirmation: polls for a receipt up to txConfirmTimeoutMs, then re-sends
+ *   with the same nonce and bumped fees (up to txMaxReplacements times)
+ * - Simulation: eth_call + estimateGas before anything is signed; reverts are
+ *   decoded against the caller's ABI and fail fast as 'simulation_failed'
+ * - Nonces: allocated here (not by ethers), sends serialized in-process per
+ *   chainId:signer (targets sharing a signer share one nonce sequence), and
+ *   every submission persisted in Redis so a restart can reconcile it
+ * - Every broadcast hash is also recorded so the event watcher can tell our
+ *   oracle writes from anyone else's
+ * - Fee caps and ceiling come from the target (each chain prices gas differently)
+ */
+
+import { ethers } from 'ethers';
+import { CONFIG } from '../config';
+import { logger } from '../utils/logger';
+import { withRetry } from '../utils/retry';
+import {
+  getPendingTransactions,
+  savePendingTransaction,
+  removePendingTransaction,
+  takeLegacyPendingTransactions,
+  recordOwnTx,
+  markOwnTxMined,
+} from './redis-state';
+import type { FeeLimits, OracleTarget, PendingTransaction, UpdateErrorCategory } from '../types';
+
+export class TxManagerError extends Error {
+  /**
+   * @param receipt - set when our tx was mined but failed (reverted): it was paid for
+   */
+  constructor(message: string, readonly category: UpdateErrorCategory, readonly receipt?: ethers.TransactionReceipt) {
+    super(message);
+    this.name = 'TxManagerError';
+  }
+}
+
+export interface FeeSettings {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+/**
+ * Called for each pending record whose nonce turned out consumed (receipt
+ * null if none of its hashes was mined)
+ */
+export type SettleCallback = (record: PendingTransaction, receipt: ethers.TransactionReceipt | null) => Promise<void>;
+
+export interface SendOptions {
+  severe?: boolean;                         // may send above the gas ceiling
+  label?: string;
+  payload?: PendingTransaction['payload'];  // persisted with the pending record
+  iface?: ethers.Interface;                 // for decoding custom revert errors
+  onSettled?: SettleCallback;               // earlier pending txs settled before this send
+}
+
+export interface SentTransaction {
+  hash: string;
+  receipt: ethers.TransactionReceipt;
+  nonce: number;
+  replacements: number;
+  fees: FeeSettings;
+}
+
+const gwei = (value: number) => ethers.parseUnits(String(value), 'gwei');
+const min = (a: bigint, b: bigint) => (a < b ? a : b);
+const formatGwei = (wei: bigint) => `${ethers.formatUnits(wei, 'gwei')} gwei`;
+
+async function currentFees(provider: ethers.Provider, limits: FeeLimits, severe: boolean): Promise<FeeSettings> {
+  const [block, feeData] = await Promise.all([provider.getBlock('latest'), provider.getFeeData()]);
+  const baseFee = block?.baseFeePerGas ?? feeData.gasPrice ?? 0n;
+
+  if (baseFee > gwei(limits.gasCeilingGwei) && !severe) {
+    throw new TxManagerError(
+      `base fee ${formatGwei(baseFee)} above ceiling ${limits.gasCeilingGwei} gwei`,
+      'fee_ceiling',
+    );
+  }
+
+  const maxPriorityFeePerGas = min(feeData.maxPriorityFeePerGas ?? 0n, gwei(limits.maxPriorityFeeGwei));
+  const maxFeePerGas = min(baseFee * 2n + maxPriorityFeePerGas, gwei(limits.maxFeeGwei));
+
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+/**
+ * Nodes require +10% on both fee fields to accept a same-nonce replacement
+ */
+function bumpFees(fees: FeeSettings, limits: FeeLimits): FeeSettings | null {
+  const factor = BigInt(100 + CONFIG.txFeeBumpPct);
+  const cap = gwei(limits.maxFeeGwei);
+  const maxFeePerGas = min((fees.maxFeePerGas * factor) / 100n, cap);
+  const maxPriorityFeePerGas = min((fees.maxPriorityFeePerGas * factor) / 100n, maxFeePerGas);
+
+  if (maxFeePerGas * 100n < fees.maxFeePerGas * 110n) {
+    return null; // already at the cap, a replacement would be rejected
+  }
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+// ════════════════════════════════════════
+// Pre-flight simulation
+// ════════════════════════════════════════
+
+/**
+ * Human-readable revert reason: custom error from the ABI, Error(string),
+ * Panic(uint256), or the raw selector when nothing matches
+ */
+export function decodeRevert(error: any, iface?: ethers.Interface): string {
+  const data: unknown = error?.data ?? error?.info?.error?.data ?? error?.error?.data;
+
+  if (typeof data === 'string' && data.length >= 10 && iface) {
+    try {
+      const parsed = iface.parseError(data);
+      if (parsed) return `${parsed.name}(${parsed.args.map(String).join(', ')})`;
+    } catch { /* not one of ours */ }
+  }
+
+  // ethers decodes Error(string) and Panic(uint256) itself
+  if (error?.revert) return `${error.revert.name}(${error.revert.args.map(String).join(', ')})`;
+  if (error?.reason) return error.reason;
+  if (typeof data === 'string' && data.length >= 10) return `unknown custom error ${data.slice(0, 10)}`;
+  return error?.shortMessage || error?.message || 'unknown revert';
+}
+
+/**
+ * eth_call + estimateGas from the signer; returns a buffered gas limit
+ */
+export async function simulateTransaction(
+  signer: ethers.Signer,
+  request: ethers.TransactionRequest,
+  iface?: ethers.Interface,
+): Promise<bigint> {
+  const provider = signer.provider;
+  if (!provider) throw new TxManagerError('signer has no provider', 'send_failed');
+  const call = { ...request, from: await signer.getAddress() };
+
+  try {
+    await provider.call(call);
+    const estimate = await provider.estimateGas(call);
+    return (estimate * BigInt(100 + CONFIG.gasLimitBufferPct)) / 100n;
+  } catch (error: any) {
+    if (error.code === 'CALL_EXCEPTION') {
+      throw new TxManagerError(`simulation reverted: ${decodeRevert(error, iface)}`, 'simulation_failed');
+    }
+    // RPC trouble, not a revert — may succeed next tick
+    throw new TxManagerError(`simulation error: ${error.shortMessage || error.message}`, 'send_failed');
+  }
+}
+
+async function waitForAny(
+  provider: ethers.Provider,
+  hashes: string[],
+  timeoutMs: number,
+): Promise<ethers.TransactionReceipt | null> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    for (const hash of hashes) {
+      const receipt = await provider.getTransactionReceipt(hash).catch(() => null);
+      if (receipt) return receipt;
+    }
+    await new Promise(r => setTimeout(r, CONFIG.txPollIntervalMs));
+  }
+  return null;
+}
+
+// ════════════════════════════════════════
+// Nonce allocation + pending tracking
+// ════════════════════════════════════════
+
+// Sends are serialized per chainId:signer so a force-update, a scheduled tick
+// and another target on the same chain and key never share a nonce
+interface NonceState {
+  queue: Promise<unknown>;
+  localNextNonce: number | null;
+}
+
+const nonceStates = new Map<string, NonceState>();
+
+/**
+ * Nonce sequence a signer's transactions belong to: "chainId:address"
+ */
+export async function signerKey(provider: ethers.Provider, address: string): Promise<string> {
+  const { chainId } = await provider.getNetwork();
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+async function signerKeyOf(signer: ethers.Signer): Promise<string> {
+  if (!signer.provider) throw new TxManagerError('signer has no provider', 'send_failed');
+  return signerKey(signer.provider, await signer.getAddress());
+}
+
+function nonceState(key: string): NonceState {
+  let state = nonceStates.get(key);
+  if (!state) {
+    state = { queue: Promise.resolve(), localNextNonce: null };
+    nonceStates.set(key, state);
+  }
+  return state;
+}
+
+function serialize<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const state = nonceState(key);
+  const run = state.queue.then(fn, fn);
+  state.queue = run.catch(() => undefined);
+  return run;
+}
+
+const maxBig = (a: bigint, b: bigint) => (a > b ? a : b);
+
+/**
+ * Settle a persisted record whose nonce the chain has already consumed
+ */
+async function settlePending(
+  key: string,
+  provider: ethers.Provider,
+  record: PendingTransaction,
+): Promise<ethers.TransactionReceipt | null> {
+  let receipt: ethers.TransactionReceipt | null = null;
+  for (const hash of record.hashes) {
+    receipt = await provider.getTransactionReceipt(hash).catch(() => null);
+    if (receipt) break;
+  }
+
+  if (receipt) {
+    logger.info({ target: record.target, nonce: record.nonce, txHash: receipt.hash, status: receipt.status, label: record.label },
+      'Pending transaction confirmed');
+  } else {
+    logger.warn({ target: record.target, nonce: record.nonce, hashes: record.hashes, label: record.label },
+      'Pending transaction dropped — nonce used by another transaction');
+  }
+  await removePendingTransaction(key, record.nonce);
+  return receipt;
+}
+
+const migratedTargets = new Set<string>();
+
+/**
+ * Move records an earlier version kept per target into the signer's store
+ */
+async function migrateLegacyPending(target: OracleTarget, key: string): Promise<void> {
+  if (migratedTargets.has(target.id)) return;
+  for (const record of await takeLegacyPendingTransactions(target.id)) {
+    await savePendingTransaction(key, { ...record, target: record.target ?? target.id });
+  }
+  migratedTargets.add(target.id);
+}
+
+/**
+ * Reconcile persisted pending transactions of the signer against the chain.
+ * Records whose nonce is consumed are settled and removed; the rest are
+ * returned (lowest nonce first) and will be replaced by the next send.
+ * Records may belong to any target sharing the signer (record.target).
+ */
+export async function reconcilePending(
+  target: OracleTarget,
+  signer: ethers.Signer,
+  onSettled?: SettleCallback,
+): Promise<PendingTransaction[]> {
+  const provider = signer.provider;
+  if (!provider) return [];
+
+  const key = await signerKeyOf(signer);
+  await migrateLegacyPending(target, key);
+  const [records, chainNonce] = await Promise.all([getPendingTransactions(key), signer.getNonce('latest')]);
+  const stillPending: PendingTransaction[] = [];
+
+  for (const record of records) {
+    if (record.nonce < chainNonce) {
+      const receipt = await settlePending(key, provider, record);
+      if (onSettled) await onSettled(record, receipt);
+    } else {
+      stillPending.push(record);
+    }
+  }
+
+  return stillPending;
+}
+
+async function allocateNonce(
+  key: string,
+  target: OracleTarget,
+  signer: ethers.Signer,
+  onSettled?: SettleCallback,
+): Promise<{ nonce: number; stuck: PendingTransaction | null }> {
+  const pending = await reconcilePending(target, signer, onSettled);
+  if (pending.length > 0) {
+    // Our own tx (this or another target's on the same signer) is stuck at
+    // this nonce: replace it instead of queueing behind it
+    return { nonce: pending[0].nonce, stuck: pending[0] };
+  }
+
+  const chainNonce = await signer.getNonce('latest');
+  const nonce = Math.max(chainNonce, nonceState(key).localNextNonce ?? 0);
+  return { nonce, stuck: null };
+}
+
+/**
+ * Send a contract call with capped EIP-1559 fees and replace it if it stalls.
+ * Every submission is persisted as a PendingTransaction until settled.
+ */
+export async function sendManagedTransaction(
+  target: OracleTarget,
+  signer: ethers.Signer,
+  request: ethers.TransactionRequest,
+  options: SendOptions = {},
+): Promise<SentTransaction> {
+  const key = await signerKeyOf(signer);
+  return serialize(key, () => sendSerialized(key, target, signer, request, options));
+}
+
+async function sendSerialized(
+  key: string,
+  target: OracleTarget,
+  signer: ethers.Signer,
+  request: ethers.TransactionRequest,
+  options: SendOptions,
+): Promise<SentTransaction> {
+  const provider = signer.provider;
+  if (!provider) throw new TxManagerError('signer has no provider', 'send_failed');
+  const label = options.label || 'transaction';
+
+  // Simulate first: a revert never costs gas or burns retries
+  const gasLimit = request.gasLimit ?? await simulateTransaction(signer, request, options.iface);
+  let fees = await currentFees(provider, target.fees, options.severe ?? false);
+  const { nonce, stuck } = await allocateNonce(key, target, signer, options.onSettled);
+
+  // Earlier hashes at this nonce (from a previous run) stay watched: if one
+  // of them lands first, this payload was never written
+  const inheritedHashes = stuck?.hashes ?? [];
+  const ownHashes: string[] = [];
+  const submittedAt = new Date().toISOString();
+
+  if (stuck) {
+    const floor = bumpFees({
+      maxFeePerGas: BigInt(stuck.maxFeePerGas),
+      maxPriorityFeePerGas: BigInt(stuck.maxPriorityFeePerGas),
+    }, target.fees);
+    if (floor) {
+      fees = {
+        maxFeePerGas: maxBig(fees.maxFeePerGas, floor.maxFeePerGas),
+        maxPriorityFeePerGas: maxBig(fees.maxPriorityFeePerGas, floor.maxPriorityFeePerGas),
+      };
+    }
+    logger.warn({ target: target.id, label, nonce, stuckHashes: stuck.hashes, stuckTarget: stuck.target },
+      'Replacing stuck pending transaction');
+  }
+
+  for (let attempt = 0; attempt <= CONFIG.txMaxReplacements; attempt++) {
+    if (attempt > 0) {
+      const bumped = bumpFees(fees, target.fees);
+      if (!bumped) {
+        logger.warn({ label, nonce, fees: formatGwei(fees.maxFeePerGas) }, 'Max fee cap reached, cannot bump further');
+        break;
+      }
+      fees = bumped;
+    }
+
+    try {
+      const tx = await withRetry(
+        () => signer.sendTransaction({ ...request, type: 2, nonce, gasLimit, ...fees }),
+        {
+          maxRetries: 2,
+          baseDelayMs: 2000,
+          label: `${label}-send`,
+          shouldRetry: (e) => e.code !== 'CALL_EXCEPTION' && e.code !== 'NONCE_EXPIRED' && e.code !== 'REPLACEMENT_UNDERPRICED',
+        },
+      );
+      ownHashes.push(tx.hash);
+      await recordOwnTx(target.id, { hash: tx.hash, nonce, sentAt: new Date().toISOString(), payload: options.payload });
+      await savePendingTransaction(key, {
+        nonce,
+        target: target.id,
+        hashes: [...inheritedHashes, ...ownHashes],
+        label,
+        to: String(request.to ?? ''),
+        data: String(request.data ?? ''),
+        payload: options.payload,
+        maxFeePerGas: fees.maxFeePerGas.toString(),
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+        submittedAt,
+        lastSubmittedAt: new Date().toISOString(),
+      });
+      logger.info({
+        target: target.id,
+        label,
+        txHash: tx.hash,
+        nonce,
+        attempt,
+        maxFee: formatGwei(fees.maxFeePerGas),
+        priorityFee: formatGwei(fees.maxPriorityFeePerGas),
+      }, attempt === 0 ? 'Transaction submitted' : 'Replacement transaction submitted');
+    } catch (error: any) {
+      // An earlier hash may have been mined meanwhile, or a stuck tx is still ahead of us
+      if (error.code === 'CALL_EXCEPTION') {
+        throw new TxManagerError(`send reverted: ${decodeRevert(error, options.iface)}`, 'simulation_failed');
+      }
+      if (error.code !== 'NONCE_EXPIRED' && error.code !== 'REPLACEMENT_UNDERPRICED') {
+        throw new TxManagerError(error.shortMessage || error.message, 'send_failed');
+      }
+      if (ownHashes.length === 0 && inheritedHashes.length === 0) {
+        if (error.code === 'REPLACEMENT_UNDERPRICED') continue; // untracked tx ahead of us: bump past it
+        throw new TxManagerError(`nonce ${nonce} already used`, 'send_failed');
+      }
+      logger.warn({ label, nonce, code: error.code }, 'Send rejected for nonce/fee, checking earlier hashes');
+    }
+
+    const receipt = await waitForAny(provider, [...ownHashes, ...inheritedHashes], CONFIG.txConfirmTimeoutMs);
+    if (receipt) {
+      await removePendingTransaction(key, nonce);
+      nonceState(key).localNextNonce = nonce + 1;
+
+      if (!ownHashes.includes(receipt.hash)) {
+        // The stuck record we inherited landed after all: settle it like reconciliation would
+        if (stuck && options.onSettled) await options.onSettled(stuck, receipt);
+        throw new TxManagerError(`nonce ${nonce} consumed by earlier pending tx ${receipt.hash}`, 'send_failed');
+      }
+      await markOwnTxMined(target.id, receipt.hash, receipt.blockNumber);
+      if (receipt.status === 0) {
+        throw new TxManagerError(`${label} reverted in block ${receipt.blockNumber}`, 'reverted', receipt);
+      }
+      return { hash: receipt.hash, receipt, nonce, replacements: attempt, fees };
+    }
+
+    logger.warn({ label, nonce, hashes: ownHashes, timeoutMs: CONFIG.txConfirmTimeoutMs }, 'Transaction not confirmed in time');
+  }
+
+  // Left in Redis as pending: the next send (or restart) reconciles or replaces it
+  throw new TxManagerError(
+    `${label} not confirmed after ${ownHashes.length} submission(s) (nonce ${nonce}): ${ownHashes.join(', ')}`,
+    'timeout',
+  );
+}
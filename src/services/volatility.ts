@@ -0,0 +1,79 @@
+/**
+ * Volatility Model — rolling per-metal statistics from price history
+ * EWMA mean/variance of per-tick log returns, so a move is judged against
+ * the current regime instead of one fixed %. Also measures drift across the
+ * whole window to catch slow walks that never trip a tick-to-tick check.
+ */
+
+import { CONFIG } from '../config';
+import { getPriceHistory } from './redis-state';
+import { FALLBACK_SOURCES } from './price-fetcher';
+import type { Metal, MetalPrices, PriceSnapshot, VolatilityStats } from '../types';
+
+const METALS: readonly Metal[] = ['gold', 'silver', 'platinum', 'palladium'];
+
+/**
+ * Live prices for one metal, oldest first. Fallback-filled values are skipped
+ * so a hardcoded tick doesn't register as a jump in and back out.
+ */
+function seriesFor(metal: Metal, history: PriceSnapshot[]): number[] {
+  const series: number[] = [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    const snap = history[i];
+    const source = snap.attribution?.[metal]?.source ?? snap.source;
+    const value = snap.fetched?.[metal];
+    if (value > 0 && !FALLBACK_SOURCES.includes(source)) series.push(value);
+  }
+  return series;
+}
+
+function computeStats(series: number[], current: number): VolatilityStats | null {
+  if (series.length < CONFIG.statsMinSamples + 1) return null;
+
+  const lambda = CONFIG.ewmaLambda;
+  let mean = 0;
+  let variance = 0;
+  let samples = 0;
+
+  for (let i = 1; i < series.length; i++) {
+    const r = Math.log(series[i] / series[i - 1]);
+    if (samples === 0) {
+      mean = r;
+      variance = r * r;
+    } else {
+      const diff = r - mean;
+      mean = lambda * mean + (1 - lambda) * r;
+      variance = lambda * variance + (1 - lambda) * diff * diff;
+    }
+    samples++;
+  }
+
+  const vol = Math.max(Math.sqrt(variance), CONFIG.minVolatilityPct / 100);
+  const last = series[series.length - 1];
+  const r = Math.log(current / last);
+  const drift = Math.log(current / series[0]);
+  const round = (v: number) => Math.round(v * 10000) / 10000;
+
+  return {
+    samples,
+    ewmaMeanPct: round(mean * 100),
+    ewmaVolPct: round(vol * 100),
+    zScore: round((r - mean) / vol),
+    driftPct: round(drift * 100),
+    driftZScore: round(drift / (vol * Math.sqrt(samples + 1))),
+  };
+}
+
+/**
+ * Stats for every metal with enough history; metals without are omitted
+ */
+export async function getVolatilityStats(current: MetalPrices): Promise<Partial<Record<Metal, VolatilityStats>>> {
+  const history = await getPriceHistory(CONFIG.statsWindow);
+  const stats: Partial<Record<Metal, VolatilityStats>> = {};
+
+  for (const metal of METALS) {
+    const result = computeStats(seriesFor(metal, history), current[metal]);
+    if (result) stats[metal] = result;
+  }
+  return stats;
+}
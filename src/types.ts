@@ -12,36 +12,318 @@ export interface MetalPrices {
   palladium: number; // $/oz
 }
 
+export type Metal = keyof MetalPrices;
+
+/**
+ * Where one metal's price came from and when it was quoted.
+ * quotedAt is the vendor's quote time when it reports one, else time received;
+ * null for hardcoded values.
+ */
+export interface MetalAttribution {
+  source: PriceSource;
+  quotedAt: string | null;
+}
+
+export type PriceAttribution = Record<Metal, MetalAttribution>;
+
 export interface FetchResult {
   prices: MetalPrices;       // $/oz
-  ethPrice: number;          // $/ETH
-  source: PriceSource;
+  source: PriceSource;       // single source, or 'mixed' when metals differ
+  attribution: PriceAttribution;
   fetchDurationMs: number;
   errors: string[];
+  rejections: PriceRejection[];
+  contributions?: SourceContribution[];  // median mode only
+  sourceQuotes: SourceQuotes;            // every provider that answered this tick
 }
 
-export type PriceSource = 'goldapi' | 'metals-live' | 'redis-stale' | 'hardcoded' | 'override';
+/**
+ * Validated per-provider quotes, keyed by provider id
+ */
+export type SourceQuotes = Record<string, Partial<MetalPrices>>;
+
+/**
+ * Where a price came from: a registered provider id (e.g. 'goldapi'),
+ * or one of the built-in tiers 'median' | 'mixed' | 'redis-stale' | 'hardcoded' | 'override'
+ */
+export type PriceSource = string;
+
+/**
+ * A provider may quote only some metals; the fetcher fills the rest from
+ * other providers or fallback tiers and attributes each metal separately
+ */
+export interface ProviderQuote {
+  prices: Partial<MetalPrices>;               // $/oz
+  quotedAt?: Partial<Record<Metal, string>>;  // vendor quote time (ISO), if reported
+}
+
+/**
+ * ETH/USD comes from its own pipeline, independent of the metal providers
+ */
+export type EthPriceSource = 'chainlink' | 'coingecko' | 'oracle-last' | 'hardcoded';
+
+export interface EthFetchResult {
+  price: number;             // $/ETH
+  source: EthPriceSource;
+  errors: string[];
+  anomalies: Anomaly[];
+}
+
+export interface EthPriceRecord {
+  timestamp: string;
+  price: number;
+  source: EthPriceSource;
+}
+
+/**
+ * A live price source. Registered in services/price-providers and
+ * enabled/ordered through CONFIG.priceProviders
+ */
+export interface PriceProvider {
+  id: PriceSource;   // stable key used in config, Redis records and snapshots
+  name: string;      // display name for logs and alerts
+  fetch(): Promise<ProviderQuote>;
+}
+
+export type RejectionReason = 'invalid' | 'below_min' | 'above_max' | 'max_jump' | 'quote_too_old';
+
+/**
+ * A single provider value thrown out by plausibility / quote-age checks
+ */
+export interface PriceRejection {
+  source: PriceSource;
+  metal: Metal;
+  value: number;
+  reason: RejectionReason;
+  detail: string;
+  quotedAt?: string;
+}
+
+/**
+ * One source's part in a median/quorum fetch
+ */
+export interface SourceContribution {
+  source: PriceSource;
+  prices: Partial<MetalPrices> | null; // null if the source failed
+  deviations: Record<string, number>;  // per-metal % from consensus
+  outliers: string[];                  // metals dropped for exceeding tolerance
+  error?: string;
+}
+
+/**
+ * Why an update was requested, in priority order:
+ * forced (admin) > initial (nothing on-chain) > deviation > heartbeat
+ */
+export type UpdateReason = 'forced' | 'initial' | 'deviation' | 'heartbeat';
 
 export interface AnalysisResult {
   anomalies: Anomaly[];
   deviations: Record<string, number>;  // per-metal deviation %
   shouldUpdate: boolean;
+  updateReason: UpdateReason | null;   // null when shouldUpdate is false
+  volatility?: Partial<Record<Metal, VolatilityStats>>;  // statistical mode only
+  held?: Metal[];  // metals kept at their on-chain value by quarantine
+  ratios?: Record<string, RatioStats>;  // cross-metal checks, keyed 'gold/silver' etc.
+}
+
+export interface RatioStats {
+  current: number;
+  average: number;       // over the recent live history window
+  deviationPct: number;
+}
+
+/**
+ * Rolling per-metal statistics over oracle:watcher:price_history (log returns per tick)
+ */
+export interface VolatilityStats {
+  samples: number;
+  ewmaMeanPct: number;   // EWMA of per-tick return, %
+  ewmaVolPct: number;    // EWMA volatility per tick, % (after floor)
+  zScore: number;        // current tick's return in vol units
+  driftPct: number;      // current price vs oldest price in window, %
+  driftZScore: number;   // drift in units of vol * sqrt(n)
 }
 
 export interface Anomaly {
-  type: 'price_spike' | 'price_crash' | 'source_failure' | 'stale_data';
+  type: 'price_spike' | 'price_crash' | 'volatility_outlier' | 'price_drift' | 'closed_market_move'
+    | 'cross_metal_divergence' | 'source_divergence' | 'source_failure' | 'rpc_failure' | 'stale_data' | 'fallback_price';
   metal?: string;
+  target?: string;       // set when only one target is affected (stale, RPC)
   severity: 'warning' | 'critical';
   message: string;
   value?: number;
 }
 
+export type SignerBackendId = 'raw-key' | 'keystore' | 'remote';
+
+export interface SignerSettings {
+  backend: SignerBackendId;
+  privateKey?: string;
+  keystorePath?: string;
+  keystorePassword?: string;
+  keystorePasswordFile?: string;
+  remoteUrl?: string;
+  remoteAddress?: string;
+  remoteToken?: string;
+}
+
+export interface MetalThresholds {
+  deviationPct: number;
+  anomalyPct: number;
+  staleMs: number;
+  heartbeatMs: number;
+  divergencePct: number;
+}
+
+export interface FeeLimits {
+  maxFeeGwei: number;
+  maxPriorityFeeGwei: number;
+  gasCeilingGwei: number;
+  severeDeviationPct: number;  // deviation that overrides the ceiling
+}
+
+/**
+ * One oracle deployment we publish to. All targets share a single price
+ * fetch per tick; reads, analysis, kill switch and writes are per target.
+ */
+export interface OracleTarget {
+  id: string;
+  name: string;
+  rpcUrls: string[];  // provider pool, first is preferred until scored
+  oracleAddress: string;
+  signer: SignerSettings;
+  metalThresholds: Record<Metal, MetalThresholds>;
+  fees: FeeLimits;
+}
+
+/**
+ * Health of one RPC endpoint in a provider pool (in-process, not persisted)
+ */
+export interface RpcEndpointHealth {
+  endpoint: string;  // host only — URLs often embed API keys
+  healthy: boolean;
+  active: boolean;  // currently ranked first
+  latencyMs: number | null;  // EWMA
+  errorRate: number;  // EWMA, 0..1
+  blockNumber: number | null;
+  blockLag: number | null;  // behind the highest block seen in the pool
+  consecutiveFailures: number;
+  cooldownUntil: string | null;
+  lastError: string | null;
+  lastCheckedAt: string | null;
+}
+
+/**
+ * fee_ceiling = deliberately not sent (network too expensive), not a failure
+ */
+export type UpdateErrorCategory = 'fee_ceiling' | 'simulation_failed' | 'send_failed' | 'timeout' | 'reverted';
+
+/**
+ * A submitted-but-unsettled transaction, persisted so restarts can reconcile it
+ */
+export interface PendingTransaction {
+  nonce: number;
+  target?: string;               // sending target; records are shared by every target on the signer
+  hashes: string[];              // every submission at this nonce, oldest first
+  label: string;
+  to: string;
+  data: string;                  // calldata of the latest submission
+  payload?: { prices: MetalPrices; ethPrice: number };
+  maxFeePerGas: string;          // wei, latest submission
+  maxPriorityFeePerGas: string;  // wei, latest submission
+  submittedAt: string;
+  lastSubmittedAt: string;
+}
+
 export interface UpdateResult {
   success: boolean;
   txHash: string;
   prices: MetalPrices;
   ethPrice: number;
   error?: string;
+  errorCategory?: UpdateErrorCategory;
+  verification?: VerificationResult;  // only when the tx confirmed
+  gasCostWei?: string;                // gasUsed × effective gas price + L1 data fee
+  blockNumber?: number;               // receipt fields, only when the tx was mined (reverted too)
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  dryRun?: boolean;                   // shadow mode: simulated, never sent
+  simulatedGas?: string;
+}
+
+/**
+ * One update attempt in the transaction ledger (every send, deferral,
+ * failure or simulation — not just the latest like LastUpdateRecord)
+ */
+export type LedgerOutcome = 'confirmed' | 'failed' | 'deferred' | 'simulated' | 'reconciled';
+
+export interface TransactionLedgerRecord {
+  id: string;
+  timestamp: string;
+  target: string;
+  outcome: LedgerOutcome;
+  reason: UpdateReason | null;
+  severe: boolean;
+  txHash: string | null;
+  blockNumber: number | null;
+  gasUsed: string | null;
+  effectiveGasPrice: string | null;  // wei
+  costWei: string | null;
+  costEth: number | null;
+  prices: MetalPrices;
+  ethPrice: number;
+  errorCategory?: UpdateErrorCategory;
+  error?: string;
+  verified?: boolean | null;
+  simulatedGas?: string;
+}
+
+/**
+ * Ledger totals for one UTC day
+ */
+export interface LedgerDailyAggregate {
+  date: string;  // YYYY-MM-DD
+  attempts: number;
+  confirmed: number;
+  failed: number;
+  deferred: number;
+  simulated: number;
+  reconciled: number;
+  gasUsed: number;
+  costGwei: number;  // summed per tx in whole gwei; exact costs are on the records
+  costEth: number;
+  avgCostEth: number | null;  // per confirmed/reconciled tx
+}
+
+export interface GasSpendRecord {
+  timestamp: string;
+  txHash: string;
+  gasUsed: string;
+  effectiveGasPrice: string;  // wei
+  costWei: string;            // L2 execution + L1 data fee
+}
+
+export type BalanceLevel = 'ok' | 'warning' | 'critical';
+
+export interface SignerBalanceRecord {
+  address: string;
+  balanceEth: number;
+  checkedAt: string;
+  updatesInWindow: number;
+  avgCostEth: number | null;    // per update
+  dailySpendEth: number | null;
+  runwayDays: number | null;    // null until there is spend history
+  level: BalanceLevel;
+}
+
+/**
+ * Oracle re-read after confirmation. verified=null means the re-read itself failed.
+ */
+export interface VerificationResult {
+  verified: boolean | null;
+  blockNumber?: number;
+  mismatches: Array<{ field: string; sentE6: string; readE6: string }>;
+  error?: string;
 }
 
 export interface SpreadConfig {
@@ -54,8 +336,35 @@ export interface SpreadConfig {
   crypto?: Record<string, { buy: number; sell: number }>;
 }
 
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerRecord {
+  source: PriceSource;
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt: string | null;   // when the breaker last tripped
+  retryAt: string | null;    // earliest time a half-open probe is allowed
+  lastError: string | null;
+  lastSuccessAt: string | null;
+}
+
+/**
+ * A metal whose on-chain write is held after a critical anomaly.
+ * Released once the level persists for quarantineConfirmTicks or an admin approves.
+ */
+export interface QuarantineRecord {
+  metal: Metal;
+  anomalyType: Anomaly['type'];
+  reason: string;          // anomaly message that started the hold
+  heldPrice: number;       // $/oz level awaiting confirmation
+  onChainPrice: number;    // $/oz on-chain when the hold started
+  startedAt: string;
+  confirmations: number;   // consecutive ticks at heldPrice (incl. the first)
+  approvedAt: string | null;
+}
+
 export interface WatcherStatus {
-  state: 'running' | 'paused' | 'error' | 'stopped';
+  state: 'running' | 'degraded' | 'paused' | 'error' | 'stopped';
   uptimeStart: string;
   errorCount: number;
   lastCycleMs: number;
@@ -64,6 +373,7 @@ export interface WatcherStatus {
 export interface LastUpdateRecord {
   timestamp: string;
   txHash: string;
+  reason?: UpdateReason;
   source: PriceSource;
   prices: MetalPrices;
   ethPrice: number;
@@ -73,8 +383,21 @@ export interface LastFetchRecord {
   timestamp: string;
   prices: MetalPrices;
   ethPrice: number;
+  ethSource: EthPriceSource;
   source: PriceSource;
+  attribution?: PriceAttribution;
   errors: string[];
+  rejections?: PriceRejection[];
+  contributions?: SourceContribution[];
+}
+
+/**
+ * Last fetched prices while the market was open: the reference for
+ * closed-market movement
+ */
+export interface LastOpenPricesRecord {
+  timestamp: string;
+  prices: MetalPrices;
 }
 
 export interface PriceSnapshot {
@@ -83,10 +406,80 @@ export interface PriceSnapshot {
   onChain: MetalPrices;
   deviations: Record<string, number>;
   source: PriceSource;
+  attribution?: PriceAttribution;
+  sourceQuotes?: SourceQuotes;
+  degraded?: boolean;  // on-chain read failed; onChain holds last known values (or zeros)
+  // Every target's view; onChain/deviations/degraded above are the primary target's
+  targets?: Record<string, { onChain: MetalPrices; deviations: Record<string, number>; degraded: boolean }>;
+}
+
+/**
+ * A write to the oracle seen on-chain by the event watcher, ours or not
+ */
+export interface OracleChangeRecord {
+  txHash: string | null;  // null = state changed with no logged transaction in the scanned range
+  blockNumber: number;
+  blockTime: string | null;
+  from: string | null;
+  method: string;  // decoded function name, or the 4-byte selector
+  ours: boolean;  // tx hash was recorded by this watcher's tx manager
+  fromOurSigner: boolean;
+  prices: MetalPrices | null;  // $/oz after the write, null if unreadable (pruned state)
+  ethPrice: number | null;
+  detectedAt: string;
+}
+
+/**
+ * A transaction this watcher broadcast, recorded before it can be mined so
+ * the event watcher can recognize it with or without an event
+ */
+export interface OwnTxRecord {
+  hash: string;
+  nonce: number;
+  sentAt: string;
+  payload?: { prices: MetalPrices; ethPrice: number };
+  blockNumber?: number;  // set once a receipt is seen
+}
+
+/**
+ * Event watcher position per target: last fully scanned block and the
+ * oracle values at that block (E6 strings), to catch unlogged changes
+ */
+export interface OracleEventCursor {
+  blockNumber: number;
+  pricesE6: Record<string, string> | null;
+  updatedAt: string;
+}
+
+/**
+ * What a tick decided — live and shadow watchers both log these so their
+ * decisions can be compared tick by tick
+ */
+export type DecisionOutcome = 'none' | 'sent' | 'simulated' | 'deferred' | 'failed' | 'kill_switch';
+
+export interface DecisionRecord {
+  timestamp: string;
+  target: string;
+  shadow: boolean;
+  source: PriceSource;
+  fetched: MetalPrices;
+  written: MetalPrices;         // after quarantine
+  ethPrice: number;
+  onChain: MetalPrices;
+  deviations: Record<string, number>;
+  shouldUpdate: boolean;
+  updateReason: UpdateReason | null;
+  held: Metal[];
+  anomalies: string[];          // "type:metal"
+  degraded: boolean;
+  outcome: DecisionOutcome;
+  txHash?: string;
+  simulatedGas?: string;
+  error?: string;
 }
 
 export interface AlertPayload {
-  type: 'oracle_stale' | 'price_anomaly' | 'source_failure' | 'update_failure' | 'kill_switch' | 'watcher_error';
+  type: 'oracle_stale' | 'price_anomaly' | 'price_drift' | 'cross_metal_divergence' | 'source_failure' | 'source_divergence' | 'hardcoded_fallback' | 'eth_fallback' | 'quarantine' | 'rpc_failure' | 'update_failure' | 'verification_failed' | 'low_balance' | 'foreign_write' | 'kill_switch' | 'watcher_error';
   severity: 'warning' | 'critical';
   title: string;
   body: string;
@@ -9,13 +9,20 @@ interface RetryOptions {
   baseDelayMs?: number;
   maxDelayMs?: number;
   label?: string;
+  shouldRetry?: (error: any) => boolean;  // false = rethrow immediately
 }
 
 export async function withRetry<T>(
   fn: () => Promise<T>,
   options: RetryOptions = {}
 ): Promise<T> {
-  const { maxRetries = 3, baseDelayMs = 2000, maxDelayMs = 15000, label = 'operation' } = options;
+  const {
+    maxRetries = 3,
+    baseDelayMs = 2000,
+    maxDelayMs = 15000,
+    label = 'operation',
+    shouldRetry = () => true,
+  } = options;
 
   let lastError: Error | null = null;
 
@@ -25,7 +32,7 @@ export async function withRetry<T>(
     } catch (error: any) {
       lastError = error;
 
-      if (attempt === maxRetries) break;
+      if (attempt === maxRetries || !shouldRetry(error)) break;
 
       const delay = Math.min(baseDelayMs * Math.pow(2, attempt), maxDelayMs);
       logger.warn({ attempt: attempt + 1, maxRetries, delay, label, error: error.message },